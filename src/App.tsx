@@ -1,10 +1,43 @@
-import { useState, useCallback } from 'react'
-import Editor from '@monaco-editor/react'
+import { useState, useCallback, useEffect, type ClipboardEvent as ReactClipboardEvent } from 'react'
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react'
+import { ChevronDown } from 'lucide-react'
 import { toast } from 'sonner'
 import { Toaster } from '@/components/ui/sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { WebflowConverter } from '@/engine/converter'
+import { webflowToCode } from '@/engine/reverse'
+import type { ConverterOptions, Diagnostic, WebflowClipboardData } from '@/engine/types'
+
+type CodeEditor = Parameters<OnMount>[0]
+
+// 'toWebflow' converts the HTML/CSS editors to clipboard JSON; 'toCode' turns pasted Webflow JSON back into them
+type Mode = 'toWebflow' | 'toCode'
+
+const modes: Array<{ value: Mode, label: string }> = [
+  { value: 'toWebflow', label: 'Code → Webflow' },
+  { value: 'toCode', label: 'Webflow → Code' },
+]
+
+const editorOptions = {
+  minimap: { enabled: false },
+  fontSize: 14,
+  fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
+  lineHeight: 1.6,
+  padding: { top: 20, bottom: 20 },
+  scrollBeyondLastLine: false,
+  wordWrap: 'on',
+  tabSize: 2,
+  renderLineHighlight: 'all',
+  fontWeight: '500',
+  smoothScrolling: true,
+  cursorBlinking: 'smooth',
+  cursorSmoothCaretAnimation: 'on',
+  scrollbar: {
+    verticalScrollbarSize: 10,
+    horizontalScrollbarSize: 10,
+  },
+} as const
 
 // Hero Section / Header
 
@@ -91,11 +124,145 @@ h1 {
     }
 }`
 
+const sectionWrappingOptions: Array<{ value: ConverterOptions['sectionWrapping'], label: string }> = [
+  { value: 'wrap', label: 'Wrap when no container' },
+  { value: 'container', label: 'Native Container' },
+  { value: 'none', label: 'No wrapper' },
+]
+
+const severityDots: Record<Diagnostic['severity'], string> = {
+  error: 'bg-red-500',
+  warning: 'bg-amber-400',
+  info: 'bg-sky-400',
+}
+
+// Squiggles for the diagnostics that point into one editor. Rules spanning several lines are
+// only underlined on their first line.
+function setDiagnosticMarkers(monaco: Monaco, editor: CodeEditor, diagnostics: Diagnostic[], source: 'html' | 'css') {
+  const model = editor.getModel()
+  if (!model) return
+
+  const severities = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info,
+  }
+  const markers = diagnostics.flatMap(diagnostic => {
+    const { loc } = diagnostic
+    if (diagnostic.source !== source || !loc || loc.start.line > model.getLineCount()) return []
+    const singleLine = loc.end.line === loc.start.line
+    return [{
+      severity: severities[diagnostic.severity],
+      message: diagnostic.message,
+      code: diagnostic.code,
+      source: 'Code to Webflow',
+      startLineNumber: loc.start.line,
+      startColumn: loc.start.column,
+      endLineNumber: loc.start.line,
+      endColumn: singleLine ? loc.end.column : model.getLineMaxColumn(loc.start.line),
+    }]
+  })
+  monaco.editor.setModelMarkers(model, 'code-to-webflow', markers)
+}
+
+function DiagnosticsPanel({ diagnostics, onSelect }: { diagnostics: Diagnostic[], onSelect: (diagnostic: Diagnostic) => void }) {
+  const [isOpen, setIsOpen] = useState(true)
+  const counts = (['error', 'warning', 'info'] as const).map(severity => ({
+    severity,
+    count: diagnostics.filter(diagnostic => diagnostic.severity === severity).length,
+  }))
+
+  return (
+    <Card className="mt-8 overflow-hidden border-border/40">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full px-5 py-3 bg-muted/30 flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+          <h2 className="text-sm font-semibold text-foreground/80 tracking-wide uppercase">Diagnostics</h2>
+        </div>
+        <div className="flex items-center gap-4">
+          {counts.map(({ severity, count }) => (
+            <span key={severity} className="flex items-center gap-1.5 text-[11px] font-bold uppercase tracking-wider text-muted-foreground">
+              <span className={`w-2 h-2 rounded-full ${severityDots[severity]}`}></span>
+              {count} {severity}{count === 1 ? '' : 's'}
+            </span>
+          ))}
+        </div>
+      </button>
+
+      {isOpen && (
+        <CardContent className="p-0 max-h-64 overflow-y-auto border-t border-border/40">
+          {diagnostics.length === 0 ? (
+            <p className="px-5 py-4 text-sm text-muted-foreground">Everything converts to native Webflow elements and classes.</p>
+          ) : (
+            <ul className="divide-y divide-border/40">
+              {diagnostics.map((diagnostic, i) => (
+                <li key={i}>
+                  <button
+                    type="button"
+                    disabled={!diagnostic.loc}
+                    onClick={() => onSelect(diagnostic)}
+                    className="w-full px-5 py-2.5 flex items-start gap-3 text-left text-sm hover:bg-muted/40 disabled:hover:bg-transparent disabled:cursor-default"
+                  >
+                    <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${severityDots[diagnostic.severity]}`}></span>
+                    <span className="flex-1 text-foreground/90">{diagnostic.message}</span>
+                    <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                      {diagnostic.loc ? `${diagnostic.source?.toUpperCase()} ${diagnostic.loc.start.line}:${diagnostic.loc.start.column}` : 'Options'}
+                    </span>
+                    <span className="shrink-0 w-36 font-mono text-xs text-muted-foreground/60 text-right">{diagnostic.code}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
+
 function App() {
   const [html, setHtml] = useState(defaultHtml)
   const [css, setCss] = useState(defaultCss)
   const [isConverting, setIsConverting] = useState(false)
   const [showSuccess, setShowSuccess] = useState(false)
+  const [sectionWrapping, setSectionWrapping] = useState<ConverterOptions['sectionWrapping']>('wrap')
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([])
+  const [monaco, setMonaco] = useState<Monaco | null>(null)
+  const [htmlEditor, setHtmlEditor] = useState<CodeEditor | null>(null)
+  const [cssEditor, setCssEditor] = useState<CodeEditor | null>(null)
+  const [mode, setMode] = useState<Mode>('toWebflow')
+  const [webflowJson, setWebflowJson] = useState('')
+
+  // Re-check the source while it's being edited, so problems show up before copying
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      try {
+        setDiagnostics(new WebflowConverter({ sectionWrapping }).convert(html, css).diagnostics)
+      } catch {
+        setDiagnostics([])
+      }
+    }, 400)
+    return () => clearTimeout(timeout)
+  }, [html, css, sectionWrapping])
+
+  useEffect(() => {
+    if (!monaco) return
+    if (htmlEditor) setDiagnosticMarkers(monaco, htmlEditor, diagnostics, 'html')
+    if (cssEditor) setDiagnosticMarkers(monaco, cssEditor, diagnostics, 'css')
+  }, [monaco, htmlEditor, cssEditor, diagnostics])
+
+  const handleSelectDiagnostic = useCallback((diagnostic: Diagnostic) => {
+    const editor = diagnostic.source === 'css' ? cssEditor : htmlEditor
+    if (!editor || !diagnostic.loc) return
+    const { line, column } = diagnostic.loc.start
+    editor.revealLineInCenter(line)
+    editor.setPosition({ lineNumber: line, column })
+    editor.focus()
+  }, [htmlEditor, cssEditor])
 
   const handleConvertAndCopy = useCallback(async () => {
     if (!html.trim()) {
@@ -108,9 +275,10 @@ function App() {
     setIsConverting(true)
 
     try {
-      const converter = new WebflowConverter()
-      const result = converter.convert(html, css)
-      const jsonOutput = JSON.stringify(result)
+      const converter = new WebflowConverter({ sectionWrapping })
+      const { data, diagnostics } = converter.convert(html, css)
+      const jsonOutput = JSON.stringify(data)
+      setDiagnostics(diagnostics)
 
       // Use the clipboard data setter to specify application/json 
       // This ensures Webflow Designer recognizes it correctly
@@ -130,8 +298,11 @@ function App() {
       setShowSuccess(true)
       setTimeout(() => setShowSuccess(false), 2000)
 
+      const warningCount = diagnostics.filter(diagnostic => diagnostic.severity !== 'info').length
       toast.success('Ready to Paste!', {
-        description: 'Webflow JSON copied with application/json metadata.'
+        description: warningCount > 0
+          ? `Webflow JSON copied. ${warningCount} ${warningCount === 1 ? 'issue needs' : 'issues need'} a look in Diagnostics.`
+          : 'Webflow JSON copied with application/json metadata.'
       })
     } catch (error) {
       toast.error('Conversion Error', {
@@ -140,7 +311,42 @@ function App() {
     } finally {
       setIsConverting(false)
     }
-  }, [html, css])
+  }, [html, css, sectionWrapping])
+
+  const handleConvertToCode = useCallback(() => {
+    let data: WebflowClipboardData
+    try {
+      data = JSON.parse(webflowJson)
+    } catch {
+      toast.error('Invalid JSON', {
+        description: 'Paste the Webflow clipboard data (copy elements in the Designer, then paste here).'
+      })
+      return
+    }
+
+    try {
+      const code = webflowToCode(data)
+      setHtml(code.html)
+      setCss(code.css)
+      setMode('toWebflow')
+      toast.success('Converted to Code', {
+        description: `${data.payload.nodes.length} nodes and ${data.payload.styles?.length ?? 0} classes loaded into the editors.`
+      })
+    } catch (error) {
+      toast.error('Conversion Error', {
+        description: error instanceof Error ? error.message : 'An unexpected error occurred'
+      })
+    }
+  }, [webflowJson])
+
+  // The Designer copies elements as application/json only, which the editor's own paste ignores
+  const handleWebflowPaste = useCallback((e: ReactClipboardEvent) => {
+    const json = e.clipboardData.getData('application/json')
+    if (!json) return
+    e.preventDefault()
+    e.stopPropagation()
+    setWebflowJson(json)
+  }, [])
 
   return (
     <div className="min-h-screen bg-background selection:bg-primary/20">
@@ -156,119 +362,149 @@ function App() {
             </div>
           </div>
 
-          <Button
-            size="lg"
-            onClick={handleConvertAndCopy}
-            disabled={isConverting}
-            className={`
-              relative overflow-hidden h-12 px-8
-              bg-primary text-white font-bold text-base
-              shadow-[0_0_20px_rgba(var(--primary),0.3)]
-              transition-all duration-500 ease-out
-              active:scale-95
-              ${showSuccess ? 'success-pop bg-emerald-500 shadow-[0_0_20px_rgba(16,185,129,0.3)]' : ''}
-              ${!isConverting && !showSuccess ? 'pulse-glow' : ''}
-            `}
-          >
-            {isConverting ? (
-              <div className="flex items-center gap-3">
-                <div className="w-5 h-5 border-[3px] border-white/20 border-t-white rounded-full animate-spin" />
-                <span>Processing...</span>
-              </div>
-            ) : showSuccess ? (
-              <div className="flex items-center gap-2 animate-in fade-in zoom-in duration-300">
-                <span>Copied Successfully</span>
-              </div>
-            ) : (
-              <div className="flex items-center gap-3">
-                <span>Convert & Copy</span>
-              </div>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center rounded-md border border-border/60 p-0.5">
+              {modes.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setMode(option.value)}
+                  className={`h-8 px-3 rounded text-xs font-semibold uppercase tracking-wider transition-colors ${mode === option.value ? 'bg-primary text-white' : 'text-muted-foreground hover:text-foreground'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'toWebflow' && (
+              <label className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Sections
+                <select
+                  value={sectionWrapping}
+                  onChange={(e) => setSectionWrapping(e.target.value as ConverterOptions['sectionWrapping'])}
+                  className="h-9 rounded-md border border-border/60 bg-background px-2 text-sm font-medium normal-case tracking-normal text-foreground"
+                >
+                  {sectionWrappingOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
             )}
-          </Button>
+
+            <Button
+              size="lg"
+              onClick={mode === 'toCode' ? handleConvertToCode : handleConvertAndCopy}
+              disabled={isConverting}
+              className={`
+                relative overflow-hidden h-12 px-8
+                bg-primary text-white font-bold text-base
+                shadow-[0_0_20px_rgba(var(--primary),0.3)]
+                transition-all duration-500 ease-out
+                active:scale-95
+                ${showSuccess ? 'success-pop bg-emerald-500 shadow-[0_0_20px_rgba(16,185,129,0.3)]' : ''}
+                ${!isConverting && !showSuccess ? 'pulse-glow' : ''}
+              `}
+            >
+              {isConverting ? (
+                <div className="flex items-center gap-3">
+                  <div className="w-5 h-5 border-[3px] border-white/20 border-t-white rounded-full animate-spin" />
+                  <span>Processing...</span>
+                </div>
+              ) : showSuccess ? (
+                <div className="flex items-center gap-2 animate-in fade-in zoom-in duration-300">
+                  <span>Copied Successfully</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <span>{mode === 'toCode' ? 'Convert to Code' : 'Convert & Copy'}</span>
+                </div>
+              )}
+            </Button>
+          </div>
         </div>
       </header>
 
       {/* Main Grid */}
       <main className="max-w-[1600px] mx-auto px-6 py-10">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 h-[calc(100vh-220px)]">
-          {/* HTML Card */}
-          <Card className="flex flex-col overflow-hidden border-border/40 shadow-2xl shadow-blue-500/5 hover:border-border/60 transition-colors">
+        {mode === 'toCode' ? (
+          /* Webflow JSON Card */
+          <Card className="flex flex-col overflow-hidden border-border/40 shadow-2xl shadow-emerald-500/5 h-[calc(100vh-220px)]">
             <div className="px-5 py-3 border-b border-border/40 bg-muted/30 flex items-center justify-between">
               <div className="flex items-center gap-2.5">
-                <div className="w-2.5 h-2.5 rounded-full bg-orange-500 animate-pulse"></div>
-                <h2 className="text-sm font-semibold text-foreground/80 tracking-wide uppercase">Source HTML</h2>
+                <div className="w-2.5 h-2.5 rounded-full bg-emerald-500 animate-pulse"></div>
+                <h2 className="text-sm font-semibold text-foreground/80 tracking-wide uppercase">Webflow JSON</h2>
               </div>
-              <span className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-tighter">Read-Only View Enabled</span>
+              <span className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-tighter">Paste Copied Elements</span>
             </div>
-            <CardContent className="p-0 flex-1 bg-[#1e1e1e]">
+            <CardContent className="p-0 flex-1 bg-[#1e1e1e]" onPasteCapture={handleWebflowPaste}>
               <Editor
                 height="100%"
-                defaultLanguage="html"
-                value={html}
-                onChange={(value) => setHtml(value || '')}
+                defaultLanguage="json"
+                value={webflowJson}
+                onChange={(value) => setWebflowJson(value || '')}
                 theme="vs-dark"
-                options={{
-                  minimap: { enabled: false },
-                  fontSize: 14,
-                  fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
-                  lineHeight: 1.6,
-                  padding: { top: 20, bottom: 20 },
-                  scrollBeyondLastLine: false,
-                  wordWrap: 'on',
-                  tabSize: 2,
-                  renderLineHighlight: 'all',
-                  fontWeight: '500',
-                  smoothScrolling: true,
-                  cursorBlinking: 'smooth',
-                  cursorSmoothCaretAnimation: 'on',
-                  scrollbar: {
-                    verticalScrollbarSize: 10,
-                    horizontalScrollbarSize: 10,
-                  },
-                }}
+                options={editorOptions}
               />
             </CardContent>
           </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 h-[calc(100vh-220px)]">
+            {/* HTML Card */}
+            <Card className="flex flex-col overflow-hidden border-border/40 shadow-2xl shadow-blue-500/5 hover:border-border/60 transition-colors">
+              <div className="px-5 py-3 border-b border-border/40 bg-muted/30 flex items-center justify-between">
+                <div className="flex items-center gap-2.5">
+                  <div className="w-2.5 h-2.5 rounded-full bg-orange-500 animate-pulse"></div>
+                  <h2 className="text-sm font-semibold text-foreground/80 tracking-wide uppercase">Source HTML</h2>
+                </div>
+                <span className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-tighter">Read-Only View Enabled</span>
+              </div>
+              <CardContent className="p-0 flex-1 bg-[#1e1e1e]">
+                <Editor
+                  height="100%"
+                  defaultLanguage="html"
+                  value={html}
+                  onChange={(value) => setHtml(value || '')}
+                  onMount={(editor, monaco) => {
+                    setHtmlEditor(editor)
+                    setMonaco(monaco)
+                  }}
+                  theme="vs-dark"
+                  options={editorOptions}
+                />
+              </CardContent>
+            </Card>
 
-          {/* CSS Card */}
-          <Card className="flex flex-col overflow-hidden border-border/40 shadow-2xl shadow-purple-500/5 hover:border-border/60 transition-colors">
-            <div className="px-5 py-3 border-b border-border/40 bg-muted/30 flex items-center justify-between">
-              <div className="flex items-center gap-2.5">
-                <div className="w-2.5 h-2.5 rounded-full bg-blue-500 animate-pulse"></div>
-                <h2 className="text-sm font-semibold text-foreground/80 tracking-wide uppercase">Styles CSS</h2>
+            {/* CSS Card */}
+            <Card className="flex flex-col overflow-hidden border-border/40 shadow-2xl shadow-purple-500/5 hover:border-border/60 transition-colors">
+              <div className="px-5 py-3 border-b border-border/40 bg-muted/30 flex items-center justify-between">
+                <div className="flex items-center gap-2.5">
+                  <div className="w-2.5 h-2.5 rounded-full bg-blue-500 animate-pulse"></div>
+                  <h2 className="text-sm font-semibold text-foreground/80 tracking-wide uppercase">Styles CSS</h2>
+                </div>
+                <span className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-tighter">Style Resolution Active</span>
               </div>
-              <span className="text-[10px] font-bold text-muted-foreground/60 uppercase tracking-tighter">Style Resolution Active</span>
-            </div>
-            <CardContent className="p-0 flex-1 bg-[#1e1e1e]">
-              <Editor
-                height="100%"
-                defaultLanguage="css"
-                value={css}
-                onChange={(value) => setCss(value || '')}
-                theme="vs-dark"
-                options={{
-                  minimap: { enabled: false },
-                  fontSize: 14,
-                  fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
-                  lineHeight: 1.6,
-                  padding: { top: 20, bottom: 20 },
-                  scrollBeyondLastLine: false,
-                  wordWrap: 'on',
-                  tabSize: 2,
-                  renderLineHighlight: 'all',
-                  fontWeight: '500',
-                  smoothScrolling: true,
-                  cursorBlinking: 'smooth',
-                  cursorSmoothCaretAnimation: 'on',
-                  scrollbar: {
-                    verticalScrollbarSize: 10,
-                    horizontalScrollbarSize: 10,
-                  },
-                }}
-              />
-            </CardContent>
-          </Card>
-        </div>
+              <CardContent className="p-0 flex-1 bg-[#1e1e1e]">
+                <Editor
+                  height="100%"
+                  defaultLanguage="css"
+                  value={css}
+                  onChange={(value) => setCss(value || '')}
+                  onMount={(editor, monaco) => {
+                    setCssEditor(editor)
+                    setMonaco(monaco)
+                  }}
+                  theme="vs-dark"
+                  options={editorOptions}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Diagnostics */}
+        {mode === 'toWebflow' && (
+          <DiagnosticsPanel diagnostics={diagnostics} onSelect={handleSelectDiagnostic} />
+        )}
 
         {/* Info Legend */}
         <div className="mt-8 flex items-center justify-center gap-12 text-muted-foreground/50">
@@ -0,0 +1,242 @@
+// Command-line tool: converts HTML (with its linked stylesheets and <style> tags) and CSS files to
+// @webflow/XscpData JSON. Built for Node.js with `npm run build:cli`.
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { createNodeConverter } from './node';
+import type { ConverterOptions, Diagnostic } from './node';
+
+const USAGE = `Usage: code-to-webflow [options] <input...>
+
+Inputs are HTML and CSS files or glob patterns (quote them, e.g. "sections/**/*.html").
+Every HTML file is converted with its local <link rel="stylesheet"> files, its <style> tags
+and the CSS files given as inputs.
+
+Options:
+  -o, --out <path>      Write the JSON to a file instead of stdout. With several HTML
+                        inputs, a directory that receives one <name>.json per input,
+                        laid out like the inputs' folders
+  --options <file>      JSON file with converter options (see ConverterOptions)
+  --pretty              Indent the JSON output
+  -q, --quiet           Only print error diagnostics
+  -h, --help            Show this help
+
+Exits with 1 when a conversion reports error diagnostics and 2 on invalid usage.`;
+
+const GLOB_CHARS = /[*?{[]/;
+
+class UsageError extends Error {}
+
+// A stylesheet's place in the concatenated CSS, to map diagnostics back to the file
+interface CssSegment {
+    file: string;
+    startLine: number; // 1-based line of the file's first line in the concatenated CSS
+    lineCount: number;
+}
+
+// Translate a glob pattern (relative to its base directory) into a regular expression
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` matches any number of directories, including none
+            const slash = pattern[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            const close = pattern.indexOf('}', i);
+            if (close === -1) {
+                source += '\\{';
+                continue;
+            }
+            const alternatives = pattern.substring(i + 1, close).split(',');
+            source += `(?:${alternatives.map(alt => globToRegExp(alt).source.slice(1, -1)).join('|')})`;
+            i = close;
+        } else if (char === '[') {
+            const close = pattern.indexOf(']', i);
+            if (close === -1) {
+                source += '\\[';
+                continue;
+            }
+            source += `[${pattern.substring(i + 1, close).replace(/^!/, '^')}]`;
+            i = close;
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+// Every file under dir, as paths relative to it. Hidden folders and node_modules are skipped.
+function walkFiles(dir: string, prefix = ''): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const relative = prefix + entry.name;
+        if (entry.isDirectory()) {
+            if (entry.name.startsWith('.') || entry.name === 'node_modules') return [];
+            return walkFiles(path.join(dir, entry.name), `${relative}/`);
+        }
+        return entry.isFile() ? [relative] : [];
+    });
+}
+
+function expandGlob(pattern: string): string[] {
+    const normalized = pattern.split(path.sep).join('/');
+    if (!GLOB_CHARS.test(normalized)) return [pattern];
+
+    // Walk from the deepest directory that has no glob characters
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const base = segments.slice(0, firstGlob).join('/') || '.';
+    const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+    if (!fs.existsSync(base)) return [];
+
+    return walkFiles(base)
+        .filter(file => matcher.test(file))
+        .map(file => path.join(base, file))
+        .sort();
+}
+
+function readFile(file: string): string {
+    try {
+        return fs.readFileSync(file, 'utf8');
+    } catch {
+        throw new UsageError(`Cannot read ${file}`);
+    }
+}
+
+// Local stylesheets linked from the HTML, in document order. Remote ones can't be fetched here.
+function linkedStylesheets(html: string, htmlFile: string): string[] {
+    const links = html.match(/<link\b[^>]*>/gi) ?? [];
+    return links.flatMap(link => {
+        const attr = (name: string) => link.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+            ?.slice(1).find(value => value !== undefined);
+        const href = attr('href');
+        if (!href || !/(^|\s)stylesheet(\s|$)/i.test(attr('rel') ?? '')) return [];
+        if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(href)) {
+            process.stderr.write(`${htmlFile}: skipping remote stylesheet ${href}\n`);
+            return [];
+        }
+        return [path.join(path.dirname(htmlFile), decodeURIComponent(href.split(/[?#]/)[0]))];
+    });
+}
+
+// Concatenate stylesheets, remembering where each one starts
+function joinStylesheets(files: string[]): { css: string; segments: CssSegment[] } {
+    const segments: CssSegment[] = [];
+    const parts: string[] = [];
+    let line = 1;
+    files.forEach(file => {
+        const css = readFile(file);
+        const lineCount = css.split('\n').length;
+        segments.push({ file, startLine: line, lineCount });
+        parts.push(css);
+        line += lineCount;
+    });
+    return { css: parts.join('\n'), segments };
+}
+
+// Deepest directory that holds all the files, so outputs keep the inputs' relative layout
+function commonDirectory(files: string[]): string {
+    const dirs = files.map(file => path.resolve(path.dirname(file)).split(path.sep));
+    const common = dirs[0].slice(0, Math.min(...dirs.map(dir => dir.length)));
+    const length = common.findIndex((segment, i) => dirs.some(dir => dir[i] !== segment));
+    return (length === -1 ? common : common.slice(0, length)).join(path.sep) || path.sep;
+}
+
+function formatDiagnostic(diagnostic: Diagnostic, htmlFile: string, segments: CssSegment[]): string {
+    let location = diagnostic.source === 'html' ? htmlFile : '';
+    const { loc } = diagnostic;
+    if (diagnostic.source === 'css' && loc) {
+        const segment = segments.find(s => loc.start.line < s.startLine + s.lineCount) ?? segments[segments.length - 1];
+        location = `${segment.file}:${loc.start.line - segment.startLine + 1}:${loc.start.column}`;
+    } else if (loc) {
+        location += `:${loc.start.line}:${loc.start.column}`;
+    }
+    return `${location ? `${location}: ` : ''}${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`;
+}
+
+function run(argv: string[]): number {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', short: 'o' },
+            options: { type: 'string' },
+            pretty: { type: 'boolean' },
+            quiet: { type: 'boolean', short: 'q' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+
+    const inputs = Array.from(new Set(positionals.flatMap(pattern => {
+        const files = expandGlob(pattern);
+        if (files.length === 0) throw new UsageError(`No files match ${pattern}`);
+        return files.map(file => path.normalize(file));
+    })));
+    const htmlFiles = inputs.filter(file => /\.html?$/i.test(file));
+    const cssFiles = inputs.filter(file => /\.css$/i.test(file));
+    const others = inputs.filter(file => !htmlFiles.includes(file) && !cssFiles.includes(file));
+    if (others.length > 0) throw new UsageError(`Not an HTML or CSS file: ${others.join(', ')}`);
+    if (htmlFiles.length === 0) throw new UsageError('No HTML input given');
+
+    let options: Partial<ConverterOptions> = {};
+    if (values.options) {
+        try {
+            options = JSON.parse(readFile(values.options));
+        } catch (error) {
+            throw error instanceof UsageError ? error : new UsageError(`${values.options} is not valid JSON`);
+        }
+    }
+
+    const out = values.out;
+    const several = htmlFiles.length > 1;
+    if (several && !out) throw new UsageError('Several HTML inputs need --out <directory>');
+
+    // a/index.html and b/index.html write <out>/a/index.json and <out>/b/index.json
+    const baseDir = commonDirectory(htmlFiles);
+
+    const converter = createNodeConverter(options);
+    let hasErrors = false;
+
+    htmlFiles.forEach(htmlFile => {
+        const html = readFile(htmlFile);
+        const { css, segments } = joinStylesheets([...cssFiles, ...linkedStylesheets(html, htmlFile)]);
+        const { data, diagnostics } = converter.convert(html, css);
+
+        diagnostics
+            .filter(diagnostic => !values.quiet || diagnostic.severity === 'error')
+            .forEach(diagnostic => process.stderr.write(`${formatDiagnostic(diagnostic, htmlFile, segments)}\n`));
+        hasErrors ||= diagnostics.some(diagnostic => diagnostic.severity === 'error');
+
+        const json = `${JSON.stringify(data, null, values.pretty ? 2 : undefined)}\n`;
+        if (!out) {
+            process.stdout.write(json);
+        } else {
+            const target = several
+                ? path.join(out, path.relative(baseDir, path.resolve(htmlFile)).replace(/\.html?$/i, '.json'))
+                : out;
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            fs.writeFileSync(target, json);
+        }
+    });
+
+    return hasErrors ? 1 : 0;
+}
+
+try {
+    process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+    if (!(error instanceof UsageError) && !(error instanceof TypeError && 'code' in error)) throw error;
+    process.stderr.write(`code-to-webflow: ${error.message}\n\n${USAGE}\n`);
+    process.exitCode = 2;
+}
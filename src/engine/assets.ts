@@ -0,0 +1,291 @@
+// Image and file assets: Webflow pastes them from payload.assets, referenced by data.img.id on Image
+// nodes, by @img_<id> in styleLess and by link.asset on file links. Image dimensions are read from
+// the header whenever the bytes are available (data URIs and locally provided files).
+import { v4 as uuidv4 } from 'uuid';
+import type { WebflowAsset } from './types';
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+    ico: 'image/x-icon',
+    pdf: 'application/pdf',
+    zip: 'application/zip',
+    csv: 'text/csv',
+    txt: 'text/plain',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+    'image/x-icon': 'ico',
+};
+
+export interface AssetSource {
+    alt?: string;
+    width?: number; // fallbacks when the image bytes aren't available
+    height?: number;
+}
+
+export interface SrcsetCandidate {
+    url: string;
+    width?: number; // `500w` descriptor
+    density?: number; // `2x` descriptor
+}
+
+interface Dimensions {
+    width: number;
+    height: number;
+}
+
+// Webflow asset IDs are 24 hex characters (Mongo ObjectId format)
+function assetId(): string {
+    return uuidv4().replace(/-/g, '').substring(0, 24);
+}
+
+export function decodeDataUri(uri: string): { mimeType: string; bytes: Uint8Array } | null {
+    const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/i);
+    if (!match) return null;
+
+    const mimeType = (match[1] || 'text/plain').toLowerCase();
+    try {
+        if (/;base64/i.test(match[2])) {
+            const binary = atob(match[3].replace(/\s+/g, ''));
+            return { mimeType, bytes: Uint8Array.from(binary, char => char.charCodeAt(0)) };
+        }
+        return { mimeType, bytes: new TextEncoder().encode(decodeURIComponent(match[3])) };
+    } catch {
+        return null;
+    }
+}
+
+function readUint16BE(bytes: Uint8Array, i: number): number {
+    return (bytes[i] << 8) | bytes[i + 1];
+}
+
+function readUint16LE(bytes: Uint8Array, i: number): number {
+    return bytes[i] | (bytes[i + 1] << 8);
+}
+
+function readUint24LE(bytes: Uint8Array, i: number): number {
+    return bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16);
+}
+
+function readUint32BE(bytes: Uint8Array, i: number): number {
+    return ((bytes[i] << 24) >>> 0) + ((bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]);
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function jpegDimensions(bytes: Uint8Array): Dimensions | null {
+    let i = 2;
+    while (i + 9 < bytes.length) {
+        if (bytes[i] !== 0xff) {
+            i++;
+            continue;
+        }
+        const marker = bytes[i + 1];
+        // SOF0-SOF15 hold the frame size; C4 (DHT), C8 (JPG) and CC (DAC) are not frames
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: readUint16BE(bytes, i + 5), width: readUint16BE(bytes, i + 7) };
+        }
+        i += 2 + readUint16BE(bytes, i + 2);
+    }
+    return null;
+}
+
+function webpDimensions(bytes: Uint8Array): Dimensions | null {
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8 ') {
+        return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+        const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+        return {
+            width: 1 + (((b1 & 0x3f) << 8) | b0),
+            height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+        };
+    }
+    if (chunk === 'VP8X') {
+        return { width: 1 + readUint24LE(bytes, 24), height: 1 + readUint24LE(bytes, 27) };
+    }
+    return null;
+}
+
+function svgDimensions(bytes: Uint8Array): Dimensions | null {
+    const svg = new TextDecoder().decode(bytes).match(/<svg\b[^>]*>/i)?.[0];
+    if (!svg) return null;
+
+    const attr = (name: string) => svg.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+    const width = parseFloat(attr('width') ?? '');
+    const height = parseFloat(attr('height') ?? '');
+    if (width > 0 && height > 0 && !/%/.test(attr('width') ?? '')) {
+        return { width, height };
+    }
+
+    const viewBox = attr('viewBox')?.trim().split(/[\s,]+/).map(Number);
+    if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+        return { width: viewBox[2], height: viewBox[3] };
+    }
+    return null;
+}
+
+// Intrinsic size from the image header (PNG, GIF, JPEG, WebP and SVG)
+export function imageDimensions(bytes: Uint8Array, mimeType: string): Dimensions | null {
+    if (bytes.length >= 24 && ascii(bytes, 1, 3) === 'PNG') {
+        return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) };
+    }
+    if (bytes.length >= 10 && ascii(bytes, 0, 3) === 'GIF') {
+        return { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) };
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return jpegDimensions(bytes);
+    }
+    if (bytes.length >= 30 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        return webpDimensions(bytes);
+    }
+    if (mimeType === 'image/svg+xml') {
+        return svgDimensions(bytes);
+    }
+    return null;
+}
+
+function mimeTypeFromName(fileName: string): string {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+// Last path segment of a URL, without query string or hash
+function fileNameFromUrl(url: string): string {
+    const path = url.split(/[?#]/)[0];
+    try {
+        return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1));
+    } catch {
+        return path.substring(path.lastIndexOf('/') + 1);
+    }
+}
+
+// Replace each url(...) in a CSS value with the result of `replace`
+export function replaceCssUrls(value: string, replace: (url: string) => string): string {
+    return value.replace(/url\(\s*(?:"([^"]*)"|'([^']*)'|([^)]*?))\s*\)/gi, (match, double, single, bare) => {
+        const url = double ?? single ?? bare;
+        return url ? replace(url) : match;
+    });
+}
+
+// Parse a srcset attribute. URLs may contain commas (data URIs), so candidates are split the way
+// the HTML spec does: a URL runs to the next whitespace, descriptors run to the next comma.
+export function parseSrcset(srcset: string): SrcsetCandidate[] {
+    const candidates: SrcsetCandidate[] = [];
+    let i = 0;
+
+    while (i < srcset.length) {
+        while (i < srcset.length && /[\s,]/.test(srcset[i])) i++;
+        const urlStart = i;
+        while (i < srcset.length && !/\s/.test(srcset[i])) i++;
+        let url = srcset.substring(urlStart, i);
+        if (!url) break;
+
+        let descriptor = '';
+        if (url.endsWith(',')) {
+            url = url.replace(/,+$/, '');
+        } else {
+            const descriptorStart = i;
+            while (i < srcset.length && srcset[i] !== ',') i++;
+            descriptor = srcset.substring(descriptorStart, i).trim();
+        }
+
+        const candidate: SrcsetCandidate = { url };
+        const match = descriptor.match(/^(\d*\.?\d+)([wx])$/i);
+        if (match && match[2].toLowerCase() === 'w') candidate.width = parseInt(match[1], 10);
+        if (match && match[2].toLowerCase() === 'x') candidate.density = parseFloat(match[1]);
+        candidates.push(candidate);
+    }
+
+    return candidates;
+}
+
+// Parse a sizes attribute into media condition / slot size pairs (the last one has no condition)
+export function parseSizes(sizes: string): Array<{ media: string; size: string }> {
+    return sizes.split(/,(?![^(]*\))/)
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const match = entry.match(/^(.*\))\s*(\S+)$/);
+            return match ? { media: match[1].trim(), size: match[2] } : { media: '', size: entry };
+        });
+}
+
+// Add srcset candidates to an asset as responsive variants (the original itself is skipped)
+export function addSrcsetVariants(asset: WebflowAsset, candidates: SrcsetCandidate[], files: Record<string, string>): void {
+    candidates.forEach(candidate => {
+        const cdnUrl = files[candidate.url] ?? files[candidate.url.replace(/^\.?\//, '')] ?? candidate.url;
+        if (cdnUrl === asset.cdnUrl || asset.variants.some(v => v.cdnUrl === cdnUrl)) return;
+
+        const width = candidate.width ??
+            (candidate.density && asset.width ? Math.round(asset.width * candidate.density) : null);
+        const fileName = candidate.url.startsWith('data:') ? asset.fileName : fileNameFromUrl(candidate.url);
+        const data = cdnUrl.startsWith('data:') ? decodeDataUri(cdnUrl) : null;
+
+        asset.variants.push({
+            cdnUrl,
+            s3Url: cdnUrl,
+            fileName,
+            origFileName: fileName,
+            format: EXTENSIONS[data?.mimeType ?? mimeTypeFromName(fileName)] ?? '',
+            size: data?.bytes.length ?? 0,
+            width,
+            quality: 100,
+        });
+    });
+}
+
+// Build an asset for an image URL. `files` maps paths as written in the markup/CSS to data URIs
+// of locally provided files, which are embedded in place of the path.
+export function createAsset(url: string, files: Record<string, string>, source: AssetSource = {}): WebflowAsset {
+    const id = assetId();
+    const local = files[url] ?? files[url.replace(/^\.?\//, '')];
+    const cdnUrl = local ?? url;
+    const data = cdnUrl.startsWith('data:') ? decodeDataUri(cdnUrl) : null;
+
+    let fileName = url.startsWith('data:') ? '' : fileNameFromUrl(url);
+    const mimeType = data?.mimeType ?? mimeTypeFromName(fileName);
+    if (!fileName) {
+        fileName = `image-${id.substring(0, 8)}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+    }
+
+    const size = data ? imageDimensions(data.bytes, mimeType) : null;
+
+    return {
+        _id: id,
+        cdnUrl,
+        s3Url: cdnUrl,
+        thumbUrl: cdnUrl,
+        fileName,
+        origFileName: fileName,
+        mimeType,
+        fileSize: data?.bytes.length ?? 0,
+        width: size?.width ?? source.width ?? null,
+        height: size?.height ?? source.height ?? null,
+        altText: source.alt ?? '',
+        markedAsDeleted: false,
+        variants: [],
+        createdOn: new Date().toISOString(),
+    };
+}
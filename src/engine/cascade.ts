@@ -0,0 +1,163 @@
+// Cascade resolution: picks the winning value for each property the way the browser would,
+// using !important, selector specificity and source order.
+
+// [ids, classes/attributes/pseudo-classes, types/pseudo-elements]
+export type Specificity = [number, number, number];
+
+export interface CascadeDeclaration {
+    property: string; // long-hand property name
+    value: string; // Webflow-ready value (@raw wrapped where needed)
+    important: boolean;
+    inline?: boolean; // from a style="" attribute, which beats any selector
+    specificity: Specificity;
+    order: number; // global source order
+}
+
+// Legacy pseudo-elements that may be written with a single colon
+const LEGACY_PSEUDO_ELEMENTS = new Set(['before', 'after', 'first-line', 'first-letter']);
+
+// Pseudo-classes whose specificity is that of their most specific argument
+const ARGUMENT_PSEUDO_CLASSES = new Set(['is', 'not', 'has', 'matches', '-webkit-any', '-moz-any']);
+
+function addSpecificity(a: Specificity, b: Specificity): Specificity {
+    return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function compareSpecificity(a: Specificity, b: Specificity): number {
+    return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+// Split a selector list on top-level commas
+function splitSelectorList(selector: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of selector) {
+        if (char === '(' || char === '[') depth++;
+        else if (char === ')' || char === ']') depth--;
+
+        if (char === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+
+    return parts.map(p => p.trim()).filter(Boolean);
+}
+
+// Read an identifier (with CSS escapes) starting at index i
+function readIdent(selector: string, i: number): number {
+    while (i < selector.length && /[\w\-\\\u00a0-\uffff]/.test(selector[i])) {
+        i += selector[i] === '\\' ? 2 : 1;
+    }
+    return i;
+}
+
+// Read a parenthesized argument starting at the `(` at index i; returns [contents, index after `)`]
+function readArgument(selector: string, i: number): [string, number] {
+    let depth = 0;
+    const start = i + 1;
+    for (; i < selector.length; i++) {
+        if (selector[i] === '(') depth++;
+        else if (selector[i] === ')' && --depth === 0) break;
+    }
+    return [selector.substring(start, i), i + 1];
+}
+
+// Specificity of a single complex selector (use the maximum across a selector list)
+export function calculateSpecificity(selector: string): Specificity {
+    const list = splitSelectorList(selector);
+    if (list.length > 1) {
+        return list.map(calculateSpecificity).reduce((max, s) => (compareSpecificity(s, max) > 0 ? s : max));
+    }
+
+    let specificity: Specificity = [0, 0, 0];
+    let i = 0;
+
+    while (i < selector.length) {
+        const char = selector[i];
+
+        if (char === '#') {
+            specificity[0]++;
+            i = readIdent(selector, i + 1);
+        } else if (char === '.') {
+            specificity[1]++;
+            i = readIdent(selector, i + 1);
+        } else if (char === '[') {
+            specificity[1]++;
+            // Skip to the closing bracket, ignoring brackets inside quoted values
+            let quote = '';
+            for (i++; i < selector.length; i++) {
+                if (quote) {
+                    if (selector[i] === quote) quote = '';
+                } else if (selector[i] === '"' || selector[i] === "'") {
+                    quote = selector[i];
+                } else if (selector[i] === ']') {
+                    break;
+                }
+            }
+            i++;
+        } else if (char === ':') {
+            const isElement = selector[i + 1] === ':';
+            const nameStart = i + (isElement ? 2 : 1);
+            const nameEnd = readIdent(selector, nameStart);
+            const name = selector.substring(nameStart, nameEnd).toLowerCase();
+            i = nameEnd;
+
+            let argument: string | null = null;
+            if (selector[i] === '(') {
+                [argument, i] = readArgument(selector, i);
+            }
+
+            if (isElement || LEGACY_PSEUDO_ELEMENTS.has(name)) {
+                specificity[2]++;
+            } else if (name === 'where') {
+                // :where() never adds specificity
+            } else if (ARGUMENT_PSEUDO_CLASSES.has(name) && argument !== null) {
+                specificity = addSpecificity(specificity, calculateSpecificity(argument));
+            } else {
+                specificity[1]++;
+            }
+        } else if (/[a-zA-Z\\\u00a0-\uffff]/.test(char) || char === '-' || char === '_') {
+            // Type selector
+            specificity[2]++;
+            i = readIdent(selector, i);
+        } else {
+            // Combinators, whitespace, `*` and `&` add nothing
+            i++;
+        }
+    }
+
+    return specificity;
+}
+
+// Positive when `a` beats `b` in the cascade
+export function compareCascade(a: CascadeDeclaration, b: CascadeDeclaration): number {
+    if (a.important !== b.important) return a.important ? 1 : -1;
+    if (!!a.inline !== !!b.inline) return a.inline ? 1 : -1;
+    return compareSpecificity(a.specificity, b.specificity) || a.order - b.order;
+}
+
+// Winning declaration for every property, keyed by property name
+export function resolveCascade(declarations: CascadeDeclaration[]): Map<string, CascadeDeclaration> {
+    const winners = new Map<string, CascadeDeclaration>();
+    declarations.forEach(decl => {
+        const current = winners.get(decl.property);
+        if (!current || compareCascade(decl, current) > 0) {
+            winners.set(decl.property, decl);
+        }
+    });
+    return winners;
+}
+
+// Serialize winning declarations as a styleLess string, in source order of the winners
+export function toStyleLess(declarations: Iterable<CascadeDeclaration>): string {
+    return Array.from(declarations)
+        .sort((a, b) => a.order - b.order)
+        .map(decl => `${decl.property}: ${decl.value};`)
+        .join(' ');
+}
@@ -1,7 +1,18 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { WebflowClipboardData, WebflowNode, WebflowStyle } from './types';
-
-// HTML tag to Webflow type mapping
+import type { ConversionResult, ConverterOptions, Diagnostic, DiagnosticCode, WebflowAsset, WebflowClipboardData, WebflowNode, WebflowStyle } from './types';
+import { lineStarts, parseCss, parseCssDeclarations, sourcePosition, sourceText } from './cssParser';
+import type { CssDeclaration, CssNode, CssStyleRule, CssStylesheet, SourceLocation } from './cssParser';
+import { locateElements } from './htmlSource';
+import { COMMENT_NODE, ELEMENT_NODE, TEXT_NODE, hasPseudoElement, matchesSelector, parseHtml } from './dom';
+import { calculateSpecificity, resolveCascade, toStyleLess } from './cascade';
+import type { CascadeDeclaration, Specificity } from './cascade';
+import { expandShorthand } from './shorthand';
+import { addSrcsetVariants, createAsset, parseSizes, parseSrcset, replaceCssUrls } from './assets';
+import type { AssetSource } from './assets';
+import { parseHostedVideo } from './media';
+
+// HTML tag to Webflow type mapping. Semantic containers are Blocks whose tag setting
+// (node tag and data.tag) keeps the original element.
 const TAG_MAP: Record<string, string> = {
     'div': 'Block',
     'section': 'Section',
@@ -11,6 +22,7 @@ const TAG_MAP: Record<string, string> = {
     'article': 'Block',
     'aside': 'Block',
     'nav': 'Block',
+    'address': 'Block',
     'h1': 'Heading',
     'h2': 'Heading',
     'h3': 'Heading',
@@ -19,7 +31,8 @@ const TAG_MAP: Record<string, string> = {
     'h6': 'Heading',
     'p': 'Paragraph',
     'a': 'Link',
-    'span': 'Block',
+    'button': 'Link', // Webflow buttons are links styled as buttons
+    'span': 'Span',
     'img': 'Image',
     'ul': 'List',
     'ol': 'List',
@@ -28,11 +41,18 @@ const TAG_MAP: Record<string, string> = {
     'b': 'Strong',
     'em': 'Emphasized',
     'i': 'Emphasized',
+    'sup': 'Superscript',
+    'sub': 'Subscript',
+    'code': 'InlineCode',
     'blockquote': 'Blockquote',
     'figure': 'Figure',
     'figcaption': 'Figcaption',
+    'br': 'LineBreak',
 };
 
+// Document structure: always implied, never worth reporting as ignored
+const DOCUMENT_TAGS = new Set(['html', 'head', 'body']);
+
 // Tags to completely ignore during conversion
 const IGNORED_TAGS = new Set([
     'html',
@@ -47,16 +67,6 @@ const IGNORED_TAGS = new Set([
     'slot',
     'doctype',
     '!doctype',
-    'colgroup',
-    'col',
-    'caption',
-    'thead',
-    'tbody',
-    'tfoot',
-    'tr',
-    'th',
-    'td',
-    'br',
     'hr',
     'wbr',
     'area',
@@ -64,227 +74,408 @@ const IGNORED_TAGS = new Set([
     'track',
     'source',
     'param',
-    'object',
-    'embed',
     'portal',
-    'picture', // We'll handle img inside picture separately
 ]);
 
-// Parse CSS variables from :root or other selectors
-function parseCssVariables(css: string): Map<string, string> {
-    const variables = new Map<string, string>();
+// Elements laid out inline (everything else starts a block, which swallows adjacent whitespace)
+const INLINE_TAGS = new Set([
+    'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'button', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i',
+    'img', 'input', 'ins', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'select', 'small', 'span',
+    'strong', 'sub', 'sup', 'svg', 'textarea', 'time', 'u', 'var', 'wbr',
+]);
 
-    // Match :root { ... } or similar blocks with CSS variables
-    const rootRegex = /:root\s*\{([^}]+)\}/g;
-    let match;
+// Node types Webflow allows inside a RichText block; other elements are unwrapped
+const RICH_TEXT_TYPES = new Set([
+    'Heading', 'Paragraph', 'List', 'ListItem', 'Blockquote', 'Figure', 'Figcaption',
+    'Image', 'Link', 'Span', 'Strong', 'Emphasized', 'Superscript', 'Subscript', 'InlineCode', 'LineBreak',
+]);
 
-    while ((match = rootRegex.exec(css)) !== null) {
-        const content = match[1];
-        // Match --variable-name: value;
-        const varRegex = /--([\w-]+)\s*:\s*([^;]+);/g;
-        let varMatch;
+// Webflow breakpoints that cascade down from the desktop base style (max-width queries)
+const MAX_WIDTH_BREAKPOINTS = [
+    { key: 'medium', width: 991, threshold: 880 },
+    { key: 'small', width: 767, threshold: 624 },
+    { key: 'tiny', width: 479, threshold: 0 },
+];
+
+// Large-desktop breakpoints that cascade up from the desktop base style (min-width queries)
+const MIN_WIDTH_BREAKPOINTS = [
+    { key: 'xxl', width: 1920, threshold: 1680 },
+    { key: 'xl', width: 1440, threshold: 1360 },
+    { key: 'large', width: 1280, threshold: 1200 },
+];
+
+// Widest max-width query that still maps onto the medium breakpoint
+const MAX_WIDTH_LIMIT = 1200;
+
+// Key of the desktop base breakpoint, used as the prefix of its state variants
+const BASE_BREAKPOINT = 'main';
+
+// Canonical media query for each Webflow breakpoint key
+export const BREAKPOINT_QUERIES: Record<string, string> = {
+    medium: '(max-width: 991px)',
+    small: '(max-width: 767px)',
+    tiny: '(max-width: 479px)',
+    large: '(min-width: 1280px)',
+    xl: '(min-width: 1440px)',
+    xxl: '(min-width: 1920px)',
+};
 
-        while ((varMatch = varRegex.exec(content)) !== null) {
-            variables.set(`--${varMatch[1]}`, varMatch[2].trim());
-        }
-    }
+// CSS state pseudo-classes/elements and their Webflow state variant keys
+const STATE_VARIANTS: Record<string, string> = {
+    ':hover': 'hover',
+    ':focus': 'focus',
+    ':focus-visible': 'focus-visible',
+    ':focus-within': 'focus-within',
+    ':active': 'pressed',
+    ':visited': 'visited',
+    '::placeholder': 'placeholder',
+    ':first-child': 'first-child',
+    ':last-child': 'last-child',
+    ':nth-child(odd)': 'nth-child(odd)',
+    ':nth-child(even)': 'nth-child(even)',
+};
 
-    return variables;
+interface ParsedRule {
+    declarations: CascadeDeclaration[];
+    variants: Record<string, CascadeDeclaration[]>; // variant key -> declarations
+    origin?: DiagnosticOrigin; // where the selector's first rule was written
 }
 
-// Wrap complex CSS values (variables, calc, clamp, etc.) in Webflow's @raw<|...|> format
-function wrapCssVariables(value: string): string {
-    const trimmed = value.trim();
-    // Check if value contains CSS variables or complex functions
-    if (trimmed.includes('var(--') ||
-        trimmed.includes('calc(') ||
-        trimmed.includes('clamp(') ||
-        trimmed.includes('min(') ||
-        trimmed.includes('max(')) {
-        // Wrap the entire value in @raw<|...|>
-        return `@raw<|${trimmed}|>`;
-    }
-    return trimmed;
-}
+// Where a diagnostic points: the input and the position in it
+type DiagnosticOrigin = Pick<Diagnostic, 'source' | 'loc'>;
 
-// Expand CSS shorthand to long-form properties
-function expandShorthand(prop: string, value: string): string {
-    const values = value.trim().split(/\s+/);
-    let result = '';
-
-    switch (prop) {
-        case 'margin':
-        case 'padding':
-            if (values.length === 1) {
-                result = `${prop}-top: ${values[0]}; ${prop}-right: ${values[0]}; ${prop}-bottom: ${values[0]}; ${prop}-left: ${values[0]};`;
-            } else if (values.length === 2) {
-                result = `${prop}-top: ${values[0]}; ${prop}-right: ${values[1]}; ${prop}-bottom: ${values[0]}; ${prop}-left: ${values[1]};`;
-            } else if (values.length === 3) {
-                result = `${prop}-top: ${values[0]}; ${prop}-right: ${values[1]}; ${prop}-bottom: ${values[2]}; ${prop}-left: ${values[1]};`;
-            } else if (values.length === 4) {
-                result = `${prop}-top: ${values[0]}; ${prop}-right: ${values[1]}; ${prop}-bottom: ${values[2]}; ${prop}-left: ${values[3]};`;
-            }
-            break;
-
-        case 'border-radius':
-            if (values.length === 1) {
-                result = `border-top-left-radius: ${values[0]}; border-top-right-radius: ${values[0]}; border-bottom-left-radius: ${values[0]}; border-bottom-right-radius: ${values[0]};`;
-            } else if (values.length === 2) {
-                result = `border-top-left-radius: ${values[0]}; border-top-right-radius: ${values[1]}; border-bottom-right-radius: ${values[0]}; border-bottom-left-radius: ${values[1]};`;
-            } else if (values.length === 4) {
-                result = `border-top-left-radius: ${values[0]}; border-top-right-radius: ${values[1]}; border-bottom-right-radius: ${values[2]}; border-bottom-left-radius: ${values[3]};`;
-            }
-            break;
-
-        case 'gap':
-            result = `grid-column-gap: ${values[0]}; grid-row-gap: ${values[1] || values[0]};`;
-            break;
-
-        case 'background':
-            if (value.startsWith('#') || value.startsWith('rgb') || /^[a-z]+$/i.test(value.trim())) {
-                result = `background-color: ${value};`;
-            } else {
-                result = `${prop}: ${value};`;
-            }
-            break;
+const NO_ORIGIN: DiagnosticOrigin = { source: null, loc: null };
 
-        default:
-            result = `${prop}: ${value};`;
-    }
+function emptyRule(): ParsedRule {
+    return { declarations: [], variants: {} };
+}
 
-    return result;
+function toPixels(value: number, unit: string): number {
+    return unit === 'px' ? value : value * 16;
 }
 
-// Parse CSS into styleLess strings with shorthand expansion and @raw variable wrapping
-function parseCssToStyleLess(css: string): Map<string, string> {
-    const styleMap = new Map<string, string>();
+// Map a media query to a Webflow breakpoint key, or null if it has no native equivalent.
+// Widths are snapped to the nearest breakpoint (e.g. max-width: 768px -> small).
+function mapMediaQueryToBreakpoint(query: string): string | null {
+    const normalized = query.toLowerCase().replace(/\s+/g, ' ').trim();
 
-    // Remove comments and media queries for processing (they go to custom embed anyway)
-    let cleanCss = css.replace(/\/\*[\s\S]*?\*\//g, '');
-    cleanCss = cleanCss.replace(/@media[^{]+\{[\s\S]*?\}\s*\}/g, '');
+    // Query lists (a, b) can't be expressed as a single breakpoint
+    if (normalized.includes(',')) return null;
 
-    // Match CSS rules: selector { properties }
-    // Handles classes, IDs, tags, and complex selectors like .hero h1
-    const ruleRegex = /([^{}\n@]+)\s*\{([^{}]+)\}/g;
-    let match;
+    let feature: { name: string; width: number } | null = null;
+    for (const part of normalized.split(/\s+and\s+/)) {
+        if (/^(only )?(screen|all)$/.test(part)) continue;
 
-    while ((match = ruleRegex.exec(cleanCss)) !== null) {
-        const selector = match[1].trim();
-        const properties = match[2].trim();
+        const widthMatch = part.match(/^\(\s*(max|min)-width\s*:\s*([\d.]+)(px|em|rem)\s*\)$/);
+        // Any other feature (orientation, prefers-*, ranges) is unmappable
+        if (!widthMatch || feature) return null;
 
-        // Skip at-rules like @keyframes or @font-face that might have slipped through
-        if (selector.startsWith('@')) continue;
+        feature = { name: widthMatch[1], width: toPixels(parseFloat(widthMatch[2]), widthMatch[3]) };
+    }
 
-        // Process each property
-        let styleLess = '';
-        properties.split(';').forEach(p => {
-            const trimmed = p.trim();
-            if (!trimmed) return;
+    if (!feature) return null;
+    const { name, width } = feature;
 
-            const colonIndex = trimmed.indexOf(':');
-            if (colonIndex === -1) return;
+    if (name === 'max') {
+        if (width >= MAX_WIDTH_LIMIT) return null;
+        return MAX_WIDTH_BREAKPOINTS.find(bp => width >= bp.threshold)?.key ?? null;
+    }
 
-            const propName = trimmed.substring(0, colonIndex).trim();
-            let propValue = trimmed.substring(colonIndex + 1).trim();
+    return MIN_WIDTH_BREAKPOINTS.find(bp => width >= bp.threshold)?.key ?? null;
+}
 
-            // Wrap CSS variables in @raw<|...|> format for Webflow
-            propValue = wrapCssVariables(propValue);
+// Split a trailing state pseudo-class off a selector (.btn:hover -> .btn + hover)
+function splitStateSelector(selector: string): { selector: string; state: string | null } {
+    const normalized = selector.replace(/\s*\(\s*/g, '(').replace(/\s*\)/g, ')');
+    const pseudo = Object.keys(STATE_VARIANTS)
+        .filter(p => normalized.endsWith(p))
+        .sort((a, b) => b.length - a.length)[0];
 
-            // Expand shorthands (but handle @raw values specially)
-            if (propValue.startsWith('@raw<|')) {
-                // Don't expand shorthands for raw values
-                styleLess += ` ${propName}: ${propValue};`;
-            } else {
-                styleLess += ' ' + expandShorthand(propName, propValue);
+    if (!pseudo) return { selector, state: null };
+
+    const base = normalized.slice(0, -pseudo.length).trim();
+    // A bare pseudo-class or a base that still carries pseudo-classes can't be a Webflow state
+    if (!base || /[\s>+~\\]$/.test(base) || /:[\w-]+$/.test(base)) {
+        return { selector, state: null };
+    }
+
+    return { selector: base, state: STATE_VARIANTS[pseudo] };
+}
+
+// Webflow variant key for a breakpoint/state pair (e.g. medium_hover); null means the base style.
+// States on the base breakpoint are keyed under `main` (main_hover).
+function variantKey(breakpoint: string | null, state: string | null): string | null {
+    if (state) return `${breakpoint ?? BASE_BREAKPOINT}_${state}`;
+    return breakpoint;
+}
+
+// Parse CSS into base declarations plus breakpoint and state variants, keyed by selector.
+// Only top-level rules, mappable @media blocks and @layer blocks are walked;
+// everything else is left for extractAdvancedCss. `order` numbers declarations across stylesheets;
+// `locate` turns a position in the stylesheet into a position in the input it came from.
+function parseCssRules(stylesheet: CssStylesheet, order: { next: number }, locate: (loc: SourceLocation) => DiagnosticOrigin): Map<string, ParsedRule> {
+    const rules = new Map<string, ParsedRule>();
+
+    const addRules = (nodes: CssNode[], breakpoint: string | null) => {
+        nodes.forEach(node => {
+            if (node.type === 'rule') {
+                const longhands = expandDeclarations(node.declarations, order);
+                if (longhands.length === 0) return;
+
+                // Selector lists are expanded so `.card, .panel` gives both selectors the declarations
+                node.selectors.forEach(fullSelector => {
+                    const specificity = calculateSpecificity(fullSelector);
+                    const { selector, state } = splitStateSelector(fullSelector);
+                    const rule = rules.get(selector) ?? emptyRule();
+                    const key = variantKey(breakpoint, state);
+                    const declarations = longhands.map(decl => ({ ...decl, specificity }));
+                    rule.origin ??= locate(node.loc);
+
+                    if (key) {
+                        rule.variants[key] = [...(rule.variants[key] ?? []), ...declarations];
+                    } else {
+                        rule.declarations.push(...declarations);
+                    }
+                    rules.set(selector, rule);
+                });
+            } else if (node.name === 'layer') {
+                addRules(node.rules, breakpoint);
+            } else if (node.name === 'media' && !breakpoint) {
+                const mapped = mapMediaQueryToBreakpoint(node.prelude);
+                if (mapped) addRules(node.rules, mapped);
             }
         });
+    };
+
+    addRules(stylesheet.rules, null);
+    return rules;
+}
 
-        if (styleLess.trim()) {
-            styleMap.set(selector, styleLess.trim());
+// Append one parsed rule's base declarations and variants onto another
+function mergeRule(target: ParsedRule, source: ParsedRule): void {
+    target.declarations.push(...source.declarations);
+    Object.entries(source.variants).forEach(([key, declarations]) => {
+        target.variants[key] = [...(target.variants[key] ?? []), ...declarations];
+    });
+}
+
+// Merge parsed rules from another stylesheet
+function mergeParsedRules(target: Map<string, ParsedRule>, source: Map<string, ParsedRule>): void {
+    source.forEach((rule, selector) => {
+        const existing = target.get(selector);
+        if (existing) {
+            mergeRule(existing, rule);
+        } else {
+            target.set(selector, rule);
         }
+    });
+}
+
+// Parse a class-only compound selector (.btn or .btn.btn-primary) into its class names.
+// Returns null for anything involving tags, combinators, IDs, attributes or pseudo-classes.
+function parseClassSelector(selector: string): string[] | null {
+    if (!/^(\.(?:[\w-]|\\.)+)+$/.test(selector)) return null;
+
+    return selector
+        .split(/(?<!\\)\./)
+        .filter(Boolean)
+        .map(name => name.replace(/\\(.)/g, '$1'));
+}
+
+// Key identifying a class chain: the base class followed by its combo classes
+function chainKey(classes: string[]): string {
+    return classes.join(' ');
+}
+
+// Element id a #fragment link points to; malformed escapes (#50%off) are taken literally
+function fragmentId(href: string): string {
+    const fragment = href.substring(1);
+    try {
+        return decodeURIComponent(fragment);
+    } catch {
+        return fragment;
     }
+}
 
-    return styleMap;
+function splitVariantKey(key: string): { breakpoint: string | null; state: string | null } {
+    const [first, ...rest] = key.split('_');
+    if (first === BASE_BREAKPOINT) return { breakpoint: null, state: rest.join('_') || null };
+    const breakpoint = BREAKPOINT_QUERIES[first] ? first : null;
+    const state = breakpoint ? rest.join('_') : key;
+    return { breakpoint, state: state || null };
 }
 
-// Extract all advanced CSS that Webflow can't handle natively
-// This includes: :root, media queries, attribute selectors, :is(), nested selectors, etc.
-function extractAdvancedCss(css: string): string {
-    const advancedRules: string[] = [];
+// Split a Webflow variant key back into its breakpoint, state and CSS pseudo-class
+export function parseVariantKey(key: string): { breakpoint: string | null; state: string | null; pseudo: string } {
+    const { breakpoint, state } = splitVariantKey(key);
+    const pseudo = Object.keys(STATE_VARIANTS).find(p => STATE_VARIANTS[p] === state) ?? '';
+    return { breakpoint, state, pseudo };
+}
 
-    // Keep comments for readability
-    const originalCss = css;
+// Variant keys whose declarations are in effect for a variant: the base style, every breakpoint
+// cascading into it (medium -> small -> tiny, large -> xl -> xxl) and the state at each of them
+function variantContext(key: string | null): Array<string | null> {
+    if (!key) return [null];
 
-    // 1. Extract :root blocks (CSS variables)
-    const rootRegex = /:root\s*\{[^}]+\}/g;
-    let match;
-    while ((match = rootRegex.exec(originalCss)) !== null) {
-        advancedRules.push(match[0]);
-    }
+    const { breakpoint, state } = splitVariantKey(key);
+    const cascade = [MAX_WIDTH_BREAKPOINTS, [...MIN_WIDTH_BREAKPOINTS].reverse()]
+        .map(list => list.map(bp => bp.key))
+        .find(keys => breakpoint !== null && keys.includes(breakpoint));
+    const breakpoints = [null, ...(cascade ? cascade.slice(0, cascade.indexOf(breakpoint as string) + 1) : [])];
 
-    // 2. Extract all @media queries (preserve as-is including nested content)
-    const mediaRegex = /@media[^{]+\{([\s\S]*?\})\s*\}/g;
-    while ((match = mediaRegex.exec(originalCss)) !== null) {
-        advancedRules.push(match[0]);
-    }
+    return breakpoints.flatMap(bp => (state ? [bp, variantKey(bp, state)] : [bp]));
+}
 
-    // 3. Extract attribute selector rules (outside of media queries)
-    // Remove media queries first to avoid duplication
-    let cssWithoutMedia = originalCss.replace(/@media[^{]+\{[\s\S]*?\}\s*\}/g, '');
+// Resolve declarations for one variant of a style. `rules` holds the rules of the style's whole
+// chain (base first); only properties whose cascade winner belongs to `own` are emitted, since
+// everything else is already inherited from the base style, a parent class or a wider breakpoint.
+function resolveVariant(rules: ParsedRule[], own: ParsedRule, key: string | null): string {
+    const declarationsFor = (rule: ParsedRule, k: string | null) => (k ? rule.variants[k] ?? [] : rule.declarations);
+    const candidates = rules.flatMap(rule => variantContext(key).flatMap(k => declarationsFor(rule, k)));
+    const owned = new Set(declarationsFor(own, key));
 
-    // Match any selector containing [...]
-    const attrSelectorRegex = /([^\{\}@]*\[[^\]]+\][^\{]*)\{([^}]+)\}/g;
-    while ((match = attrSelectorRegex.exec(cssWithoutMedia)) !== null) {
-        const selector = match[1].trim();
-        const properties = match[2];
-        // Skip if empty selector
-        if (selector) {
-            advancedRules.push(`${selector} {\n${properties}\n}`);
-        }
-    }
+    const winners = Array.from(resolveCascade(candidates).values()).filter(decl => owned.has(decl));
+    return toStyleLess(winners);
+}
 
-    // 4. Extract :is(), :where(), :has(), :not() with complex content (outside media)
-    const complexPseudoRegex = /([^\{\}@]*:(?:is|where|has|not)\([^)]+\)[^\{]*)\{([^}]+)\}/g;
-    while ((match = complexPseudoRegex.exec(cssWithoutMedia)) !== null) {
-        const selector = match[1].trim();
-        const properties = match[2];
-        // Avoid duplicates (might have been caught by attribute selector regex)
-        const rule = `${selector} {\n${properties}\n}`;
-        if (!advancedRules.includes(rule) && !selector.includes('[')) {
-            advancedRules.push(rule);
-        }
+// Serialize a parsed rule back to CSS, re-wrapping breakpoint variants in their media queries
+function formatCssRule(selector: string, rule: ParsedRule): string {
+    const parts: string[] = [];
+    const styleLess = resolveVariant([rule], rule, null);
+    if (styleLess) {
+        parts.push(`${selector} { ${styleLess} }`);
     }
+    Object.keys(rule.variants).forEach(key => {
+        const styleLess = resolveVariant([rule], rule, key);
+        if (!styleLess) return;
+
+        const { breakpoint, pseudo } = parseVariantKey(key);
+        const stateSelector = `${selector}${pseudo}`;
+        parts.push(breakpoint
+            ? `@media ${BREAKPOINT_QUERIES[breakpoint]} { ${stateSelector} { ${styleLess} } }`
+            : `${stateSelector} { ${styleLess} }`);
+    });
+    return parts.join('\n');
+}
 
-    // 5. Extract element/tag selectors (body, html, *, etc.)
-    const elementRegex = /(?:^|\n)\s*((?:html|body|\*|:root)[^{]*)\{([^}]+)\}/g;
-    while ((match = elementRegex.exec(cssWithoutMedia)) !== null) {
-        const selector = match[1].trim();
-        const properties = match[2];
-        const rule = `${selector} {\n${properties}\n}`;
-        if (!advancedRules.some(r => r.includes(selector))) {
-            advancedRules.push(rule);
-        }
-    }
+// Parse CSS variables from :root rules (including ones nested in at-rules)
+function parseCssVariables(stylesheet: CssStylesheet): Map<string, string> {
+    const variables = new Map<string, string>();
 
-    // 6. Extract keyframes
-    const keyframesRegex = /@keyframes\s+[\w-]+\s*\{[\s\S]*?\}\s*\}/g;
-    while ((match = keyframesRegex.exec(originalCss)) !== null) {
-        advancedRules.push(match[0]);
-    }
+    const walk = (nodes: CssNode[]) => {
+        nodes.forEach(node => {
+            if (node.type === 'atrule') {
+                walk(node.rules);
+                return;
+            }
+            if (!node.selectors.includes(':root')) return;
 
-    // 7. Extract @font-face
-    const fontFaceRegex = /@font-face\s*\{[^}]+\}/g;
-    while ((match = fontFaceRegex.exec(originalCss)) !== null) {
-        advancedRules.push(match[0]);
-    }
+            node.declarations.forEach(decl => {
+                if (decl.property.startsWith('--')) {
+                    variables.set(decl.property, decl.value);
+                }
+            });
+        });
+    };
 
-    // 8. Extract @import
-    const importRegex = /@import\s+[^;]+;/g;
-    while ((match = importRegex.exec(originalCss)) !== null) {
-        advancedRules.push(match[0]);
+    walk(stylesheet.rules);
+    return variables;
+}
+
+// Wrap complex CSS values (variables, calc, clamp, etc.) in Webflow's @raw<|...|> format
+function wrapCssVariables(value: string): string {
+    const trimmed = value.trim();
+    // Check if value contains CSS variables or complex functions
+    if (trimmed.includes('var(--') ||
+        trimmed.includes('calc(') ||
+        trimmed.includes('clamp(') ||
+        trimmed.includes('min(') ||
+        trimmed.includes('max(')) {
+        // Wrap the entire value in @raw<|...|>
+        return `@raw<|${trimmed}|>`;
     }
+    return trimmed;
+}
+
+// Expand declarations into long-hand cascade entries with @raw variable wrapping.
+// Specificity is filled in per selector by the caller.
+function expandDeclarations(declarations: CssDeclaration[], order: { next: number }): Omit<CascadeDeclaration, 'specificity'>[] {
+    return declarations.flatMap(decl => {
+        const declOrder = order.next++;
+
+        // Expand shorthands, except when a variable could stand for several of the values
+        const longhands = decl.value.includes('var(')
+            ? [{ property: decl.property, value: decl.value }]
+            : expandShorthand(decl.property, decl.value);
+
+        // Wrap CSS variables and math functions in @raw<|...|> format for Webflow
+        return longhands.map(longhand => ({
+            property: longhand.property,
+            value: wrapCssVariables(longhand.value),
+            important: decl.important,
+            order: declOrder
+        }));
+    });
+}
+
+// Selectors Webflow can't express as classes: :root, attribute selectors, pseudo-elements
+// other than ::placeholder (a state), :is()/:where()/:has()/:not() and document-level selectors
+function isAdvancedSelector(selector: string): boolean {
+    return selector === ':root' ||
+        hasPseudoElement(splitStateSelector(selector).selector) ||
+        selector.includes('[') ||
+        /:(?:is|where|has|not)\(/.test(selector) ||
+        /^(?:html|body|\*)(?![\w-])/.test(selector);
+}
+
+// Style rules that go to the custom embed: advanced selectors or nested CSS
+function isAdvancedStyleRule(rule: CssStyleRule): boolean {
+    return rule.rules.length > 0 || rule.selectors.some(isAdvancedSelector);
+}
+
+// Extract all advanced CSS that Webflow can't handle natively
+// This includes: :root, unmappable media queries, @supports/@container, keyframes,
+// font faces, attribute selectors, :is(), nested selectors, etc.
+// `onRule` is called for each rule that ends up in the result.
+function extractAdvancedCss(stylesheets: CssStylesheet[], onRule: (stylesheet: CssStylesheet, node: CssNode) => void = () => {}): string {
+    // @import and @charset are only valid at the start of a stylesheet
+    const hoisted: string[] = [];
+
+    const collect = (stylesheet: CssStylesheet, nodes: CssNode[]): string[] => {
+        const advancedRules: string[] = [];
+
+        nodes.forEach(node => {
+            if (node.type === 'rule') {
+                if (isAdvancedStyleRule(node)) {
+                    advancedRules.push(sourceText(stylesheet, node));
+                    onRule(stylesheet, node);
+                }
+                return;
+            }
 
-    return advancedRules.join('\n\n');
+            // Mappable media queries and layers became variants/classes; keep only their advanced contents
+            const transparent = node.hasBlock && (node.name === 'layer' ||
+                (node.name === 'media' && mapMediaQueryToBreakpoint(node.prelude) !== null));
+
+            if (transparent) {
+                const inner = collect(stylesheet, node.rules);
+                if (inner.length > 0) {
+                    advancedRules.push(`@${node.name} ${node.prelude} {\n${inner.join('\n\n')}\n}`);
+                }
+            } else if (node.name === 'import' || node.name === 'charset') {
+                hoisted.push(sourceText(stylesheet, node));
+                onRule(stylesheet, node);
+            } else {
+                advancedRules.push(sourceText(stylesheet, node));
+                onRule(stylesheet, node);
+            }
+        });
+
+        return advancedRules;
+    };
+
+    const advancedRules = stylesheets.flatMap(stylesheet => collect(stylesheet, stylesheet.rules));
+    return [...hoisted, ...advancedRules].join('\n\n');
 }
 
 // Standard HTML attributes that are handled specially (not put in xattr)
@@ -313,174 +504,406 @@ const STANDARD_ATTRS = new Set([
     'enctype',
     'rel',
     'media',
+    'required',
+    'multiple',
+    'autocomplete',
+    'autofocus',
+    'maxlength',
 ]);
 
+// Media elements: hosted videos and background videos map to Webflow elements, the rest to embeds
+const MEDIA_TAGS = new Set(['video', 'audio', 'iframe', 'object', 'embed']);
+
+// Links to these files become file links
+const DOWNLOAD_EXTENSION = /\.(pdf|docx?|xlsx?|pptx?|odt|ods|odp|rtf|csv|txt|zip|rar|7z|gz|epub)$/i;
+
+// Webflow page slug for a relative link path: `/pricing`, `pricing.html` and `./pricing/` all give
+// `pricing`, the home page is ''. Paths that climb out of the site (`../`) give null.
+function pageSlug(path: string): string | null {
+    if (path.startsWith('../')) return null;
+    const slug = path
+        .replace(/^\.?\/+/, '')
+        .replace(/\/+$/, '')
+        .replace(/(^|\/)index\.html?$/i, '')
+        .replace(/\.html?$/i, '');
+    return slug.toLowerCase();
+}
+
+// Class name fragments identifying the parts of a navigation bar
+const NAV_BRAND_PATTERN = /brand|logo/i;
+const NAV_MENU_PATTERN = /menu|links|nav-list|nav-items/i;
+const NAV_BUTTON_PATTERN = /toggle|hamburger|burger|menu-button|menu-btn|menu-icon/i;
+
+// Navbar settings Webflow uses for a new navbar (collapses to the menu button at the medium breakpoint)
+const NAVBAR_WRAPPER_SETTINGS = {
+    type: 'wrapper',
+    collapse: 'medium',
+    animation: 'default',
+    duration: 400,
+    easing: 'ease',
+    easing2: 'ease',
+    docHeight: false,
+    noScroll: false
+};
+
+// Input types rendered as a Webflow FormTextInput
+const TEXT_INPUT_TYPES = new Set([
+    'text', 'email', 'password', 'tel', 'number', 'url', 'search',
+    'date', 'datetime-local', 'month', 'week', 'time',
+]);
+
+// Default messages Webflow shows after a form submission
+const FORM_SUCCESS_MESSAGE = 'Thank you! Your submission has been received!';
+const FORM_ERROR_MESSAGE = 'Oops! Something went wrong while submitting the form.';
+
+// data-*, aria-* and any non-standard attributes, which Webflow keeps as custom attributes
+function collectXattr(el: Element): Array<{ name: string, value: string }> {
+    return Array.from(el.attributes)
+        .filter(attr => {
+            const attrName = attr.name.toLowerCase();
+            return attrName.startsWith('data-') || attrName.startsWith('aria-') || !STANDARD_ATTRS.has(attrName);
+        })
+        .map(attr => ({ name: attr.name, value: attr.value }));
+}
+
+function isInline(node: Node): boolean {
+    return node.nodeType === ELEMENT_NODE && INLINE_TAGS.has((node as Element).tagName.toLowerCase());
+}
+
+// Nearest sibling that takes part in layout (comments don't)
+function layoutSibling(node: Node, direction: 'previousSibling' | 'nextSibling'): Node | null {
+    let sibling = node[direction];
+    while (sibling && sibling.nodeType === COMMENT_NODE) sibling = sibling[direction];
+    return sibling;
+}
+
+// Text of a text node as `white-space: normal` renders it: whitespace runs collapse to one space,
+// which is dropped at the start/end of a block or next to a block-level sibling. <pre> keeps its text.
+function renderedText(text: Node): string {
+    const value = text.textContent ?? '';
+    const parent = text.parentElement;
+    if (parent?.closest('pre, textarea')) return value;
+
+    const atBlockEdge = (sibling: Node | null) =>
+        sibling ? sibling.nodeType === ELEMENT_NODE && !isInline(sibling) : !(parent && isInline(parent));
+
+    let collapsed = value.replace(/[ \t\n\r\f]+/g, ' ');
+    if (atBlockEdge(layoutSibling(text, 'previousSibling'))) collapsed = collapsed.replace(/^ /, '');
+    if (atBlockEdge(layoutSibling(text, 'nextSibling'))) collapsed = collapsed.replace(/ $/, '');
+    return collapsed;
+}
+
+// Markup of an element (inline svg, iframe, video...) for an HtmlEmbed whose wrapper carries the
+// element's classes and inline styles. A class-sized element without its own width/height fills the wrapper.
+function wrappedEmbedMarkup(el: Element, styledByWrapper: boolean): string {
+    const copy = el.cloneNode(true) as Element;
+    copy.removeAttribute('class');
+    copy.removeAttribute('style');
+    if (styledByWrapper && !copy.hasAttribute('width') && !copy.hasAttribute('height')) {
+        copy.setAttribute('width', '100%');
+        copy.setAttribute('height', '100%');
+    }
+    return copy.outerHTML;
+}
+
+// Replace an inline svg with an <img> showing it as a data URI, keeping the svg's classes, style,
+// size and label. The <img> takes the svg's place so descendant selectors still match it.
+function svgToImage(svg: Element): Element {
+    const copy = svg.cloneNode(true) as Element;
+    copy.removeAttribute('class');
+    copy.removeAttribute('style');
+    if (!copy.hasAttribute('xmlns')) {
+        copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    }
+
+    const img = svg.ownerDocument.createElement('img');
+    img.setAttribute('src', `data:image/svg+xml;utf8,${encodeURIComponent(copy.outerHTML)}`);
+
+    const alt = svg.getAttribute('aria-label') || svg.querySelector('title')?.textContent?.trim() || '';
+    img.setAttribute('alt', alt);
+    ['class', 'style', 'width', 'height', 'id'].forEach(name => {
+        const value = svg.getAttribute(name);
+        if (value !== null) img.setAttribute(name, value);
+    });
+    svg.replaceWith(img);
+    return img;
+}
+
+// Node data shared by generated components (el is null for nodes with no source element)
+function componentData(el: Element | null, extra: Record<string, unknown>): Record<string, unknown> {
+    return {
+        attr: { id: el?.getAttribute('id') || '' },
+        xattr: el ? collectXattr(el) : [],
+        devlink: { runtimeProps: {}, slot: '' },
+        displayName: '',
+        search: { exclude: false },
+        visibility: { conditions: [] },
+        ...extra
+    };
+}
+
+// Node data shared by every form component (el is null for generated nodes)
+function formNodeData(el: Element | null, formType: string, attr: Record<string, unknown>, extra: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        attr: { id: el?.getAttribute('id') || '', ...attr },
+        xattr: el ? collectXattr(el).filter(x => x.name.toLowerCase() !== 'data-name') : [],
+        form: { type: formType, ...extra },
+        devlink: { runtimeProps: {}, slot: '' },
+        displayName: '',
+        search: { exclude: false },
+        visibility: { conditions: [] }
+    };
+}
+
+export const DEFAULT_CONVERTER_OPTIONS: ConverterOptions = {
+    inlineStyles: 'combo',
+    inlineStyleClassName: '{class}-inline-{index}',
+    richTextSelector: '',
+    files: {},
+    pictureArtDirection: 'embed',
+    inlineSvg: 'embed',
+    linkButtonSelector: '',
+    pages: [],
+    navbar: false,
+    sectionWrapping: 'wrap',
+    sectionContainerSelector: '[class*="container"]',
+    rootWrapping: 'auto',
+    rootClassName: '',
+    unusedClasses: 'embed',
+    embedCustomCss: true,
+    tagStylePrefix: 'custom-styled-',
+    scopedStylePrefix: 'scoped-style-',
+    domParser: null,
+};
+
 export class WebflowConverter {
     private nodes: WebflowNode[] = [];
     private styles: WebflowStyle[] = [];
-    private styleIdMap: Map<string, string> = new Map();
-    private usedClasses: Set<string> = new Set();
+    private styleIdMap: Map<string, string> = new Map(); // class chain key or generated name -> style id
+    private usedChains: Map<string, string[]> = new Map(); // chain key -> [base, ...combos]
     private cssVariables: Map<string, string> = new Map();
-    private complexRules: Map<string, string> = new Map(); // selector -> styleLess
-    private selectorToClassMap: Map<string, string> = new Map(); // selector -> generatedClassName
+    private complexRules: Map<string, ParsedRule> = new Map(); // selector -> declarations + variants
+    private matchedComplexSelectors: Set<string> = new Set();
+    private unsupportedSelectors: Set<string> = new Set(); // selectors el.matches can't evaluate, reported once
+    private generatedNames: Set<string> = new Set(); // names of styles generated for complex selectors and style=""
     private styleMap: Map<string, WebflowStyle> = new Map(); // id -> WebflowStyle object (for fast lookup)
-    private processedMerges: Set<string> = new Set(); // track merged styles to prevent duplication
-
+    private assets: Map<string, WebflowAsset> = new Map(); // image URL -> asset
+    private styleRules: Map<string, ParsedRule> = new Map(); // style id -> declarations targeting that style
+    private styleParents: Map<string, string> = new Map(); // combo style id -> parent style id
+    private sourceOrder = { next: 0 }; // cascade order shared by stylesheets and style="" attributes
+    private inlineStyleCount = 0;
+    private formFieldCount = 0; // used to name form fields without a name attribute
+    private richTextDepth = 0; // > 0 while converting the contents of a RichText block
+    private nativeContainers: Set<Element> = new Set(); // section children converted to Webflow Containers
+    private sectionLinks: Array<{ link: Record<string, unknown>, id: string, el: Element }> = []; // #id links to resolve
+    private droppedLinks: string[] = []; // hrefs of links that couldn't be resolved
+    private diagnostics: Diagnostic[] = [];
+    private htmlLocations: Map<Element, SourceLocation> = new Map(); // start tag of each parsed element
+    private options: ConverterOptions;
+
+    constructor(options: Partial<ConverterOptions> = {}) {
+        this.options = { ...DEFAULT_CONVERTER_OPTIONS, ...options };
+    }
 
-    constructor() { }
+    // Options passed here override the constructor's for this call only
+    public convert(html: string, css: string, options: Partial<ConverterOptions> = {}): ConversionResult {
+        const instanceOptions = this.options;
+        this.options = { ...instanceOptions, ...options };
+        try {
+            const data = this.convertDocument(html, css);
+            return { data, diagnostics: this.diagnostics };
+        } finally {
+            this.options = instanceOptions;
+        }
+    }
 
-    public convert(html: string, css: string): WebflowClipboardData {
+    private convertDocument(html: string, css: string): WebflowClipboardData {
         this.nodes = [];
         this.styles = [];
         this.styleIdMap = new Map();
         this.styleMap = new Map();
-        this.processedMerges = new Set();
-        this.usedClasses = new Set();
-
+        this.assets = new Map();
+        this.styleRules = new Map();
+        this.styleParents = new Map();
+        this.usedChains = new Map();
+        this.sourceOrder = { next: 0 };
+        this.inlineStyleCount = 0;
+        this.formFieldCount = 0;
+        this.richTextDepth = 0;
+        this.nativeContainers = new Set();
+        this.sectionLinks = [];
+        this.droppedLinks = [];
+        this.diagnostics = [];
+        this.unsupportedSelectors = new Set();
+
+        // Parse external CSS into an AST shared by every CSS pass below
+        const stylesheet = parseCss(css);
+        const stylesheets = [stylesheet];
+        // Positions in each stylesheet mapped back to the input it was written in
+        const locators = new Map<CssStylesheet, (loc: SourceLocation) => DiagnosticOrigin>();
+        locators.set(stylesheet, loc => ({ source: 'css', loc }));
 
         // Parse CSS variables (still used for extracting to custom embed)
-        this.cssVariables = parseCssVariables(css);
+        this.cssVariables = parseCssVariables(stylesheet);
 
-        // Parse external CSS with @raw variable wrapping
-        const parsedStyles = parseCssToStyleLess(css);
+        // Parse external CSS with @raw variable wrapping and breakpoint variants
+        const parsedStyles = parseCssRules(stylesheet, this.sourceOrder, locators.get(stylesheet)!);
 
         // Parse HTML to extract inline styles and collect used classes
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(html, 'text/html');
+        const doc = parseHtml(html, this.options.domParser);
+        this.htmlLocations = locateElements(html, doc.documentElement);
+        const htmlLines = lineStarts(html);
 
         // Extract and parse inline <style> tags
         const styleTags = doc.querySelectorAll('style');
         styleTags.forEach(styleTag => {
-            const styleContent = styleTag.textContent || '';
+            const inlineStylesheet = parseCss(styleTag.textContent || '');
+            stylesheets.push(inlineStylesheet);
+            // The CSS starts right after the <style> start tag
+            const base = this.htmlLocations.get(styleTag)?.end.offset;
+            const locate = (loc: SourceLocation): DiagnosticOrigin => ({
+                source: 'html',
+                loc: base === undefined ? null : {
+                    start: sourcePosition(htmlLines, base + loc.start.offset),
+                    end: sourcePosition(htmlLines, base + loc.end.offset)
+                }
+            });
+            locators.set(inlineStylesheet, locate);
             // Also parse variables from inline styles
-            const inlineVariables = parseCssVariables(styleContent);
+            const inlineVariables = parseCssVariables(inlineStylesheet);
             inlineVariables.forEach((value, key) => {
                 this.cssVariables.set(key, value);
             });
 
-            const inlineStyles = parseCssToStyleLess(styleContent);
-            inlineStyles.forEach((styleLess, className) => {
-                // Merge with external CSS (inline takes precedence)
-                if (!parsedStyles.has(className)) {
-                    parsedStyles.set(className, styleLess);
-                } else {
-                    // Append inline styles to external
-                    parsedStyles.set(className, parsedStyles.get(className) + ' ' + styleLess);
-                }
-            });
+            // Merge with external CSS (inline comes later in source order, so it wins ties)
+            mergeParsedRules(parsedStyles, parseCssRules(inlineStylesheet, this.sourceOrder, locate));
             // Remove style tag from DOM so it's not processed as an element
             styleTag.remove();
         });
 
+        stylesheets.forEach(sheet => sheet.errors.forEach(error => {
+            this.report('css-syntax', 'error', error.message, locators.get(sheet)!(error.loc));
+        }));
+
         // Initialize state for this conversion
         this.complexRules = new Map();
-        this.selectorToClassMap = new Map();
+        this.matchedComplexSelectors = new Set();
+        this.generatedNames = new Set();
         const unusedCssRules: string[] = [];
+        const unsupportedCssRules: string[] = [];
 
-        // First pass: collect all used classes from HTML
+        // First pass: collect all used class chains (base + combos) from HTML
         this.collectUsedClasses(doc.body);
 
         // Process all parsed styles
-        parsedStyles.forEach((styleLess, selector) => {
-            const isSimpleClass = selector.startsWith('.') && !selector.includes(' ') && !selector.includes('>') && !selector.includes(':') && !selector.includes('[');
-
-            if (isSimpleClass) {
-                const className = selector.substring(1);
-                // Only create style if the class is actually used in HTML
-                if (this.usedClasses.has(className)) {
-                    const styleId = uuidv4();
-                    this.styleIdMap.set(className, styleId);
-                    const newStyle: WebflowStyle = {
-                        _id: styleId,
-                        fake: false,
-                        type: 'class',
-                        name: className,
-                        namespace: '',
-                        comb: '',
-                        styleLess: styleLess,
-                        variants: {},
-                        children: [],
-                        createdBy: '61f14380242f626709f24c30',
-                        origin: null,
-                        selector: null
-                    };
-                    this.styles.push(newStyle);
-                    this.styleMap.set(styleId, newStyle);
-
-                } else {
-                    unusedCssRules.push(`${selector} { ${styleLess} }`);
-                }
-            } else {
-                // Tag, combinator, or complex selector
-                this.complexRules.set(selector, styleLess);
-                const generatedName = this.generateClassNameFromSelector(selector);
-                this.selectorToClassMap.set(selector, generatedName);
-
-                const styleId = uuidv4();
-                this.styleIdMap.set(generatedName, styleId);
-                const newStyle: WebflowStyle = {
-                    _id: styleId,
-                    fake: false,
-                    type: 'class',
-                    name: generatedName,
-                    namespace: '',
-                    comb: '',
-                    styleLess: styleLess,
-                    variants: {},
-                    children: [],
-                    createdBy: '61f14380242f626709f24c30',
-                    origin: null,
-                    selector: null
-                };
-                this.styles.push(newStyle);
-                this.styleMap.set(styleId, newStyle);
+        const classRules: Array<{ selector: string; classes: string[]; rule: ParsedRule; used: boolean }> = [];
+        parsedStyles.forEach((rule, selector) => {
+            const classes = parseClassSelector(selector);
 
+            if (classes) {
+                classRules.push({ selector, classes, rule, used: false });
+            } else {
+                // Tag, combinator, or complex selector - resolved per element in processElement
+                this.complexRules.set(selector, rule);
+                // The CSS parser accepted the selector, so a matcher that throws on it just lacks support
+                if (!this.isSupportedSelector(doc.body, selector)) {
+                    this.report('unsupported-selector', 'warning', this.options.embedCustomCss
+                        ? `\`${selector}\` can't be evaluated here, so it isn't applied to elements; it is kept in the custom CSS embed`
+                        : `\`${selector}\` can't be evaluated here, so it isn't applied to elements and was left out`, rule.origin);
+                }
             }
         });
 
-        // Ensure ALL used classes have a Style entry, even if they have no CSS rules
-        this.usedClasses.forEach(className => {
-            if (!this.styleIdMap.has(className)) {
-                const styleId = uuidv4();
-                this.styleIdMap.set(className, styleId);
-                const newStyle: WebflowStyle = {
-                    _id: styleId,
-                    fake: false,
-                    type: 'class',
-                    name: className,
-                    namespace: '',
-                    comb: '',
-                    styleLess: '',
-                    variants: {},
-                    children: [],
-                    createdBy: '61f14380242f626709f24c30',
-                    origin: null,
-                    selector: null
-                };
-                this.styles.push(newStyle);
-                this.styleMap.set(styleId, newStyle);
-            }
-        });
+        // The root wrapper's class picks up any CSS written for it, like a class used in the HTML
+        const { rootClassName } = this.options;
+        if (rootClassName && !this.usedChains.has(chainKey([rootClassName]))) {
+            this.usedChains.set(chainKey([rootClassName]), [rootClassName]);
+        }
+
+        // Unused classes can be kept as Webflow classes: treat every class rule's chain (and the
+        // chains it combines on) as used, so the loop below creates them like any other
+        if (this.options.unusedClasses === 'create') {
+            classRules.forEach(entry => {
+                entry.classes.forEach((_, i) => {
+                    const chain = entry.classes.slice(0, i + 1);
+                    if (!this.usedChains.has(chainKey(chain))) {
+                        this.usedChains.set(chainKey(chain), chain);
+                    }
+                });
+            });
+        }
 
+        // Create a style for every used chain, even if it has no CSS rules.
+        // A chain's last class receives every class rule that targets it and only classes in the chain,
+        // so `.btn-primary` and `.btn.btn-primary` both land on the btn-primary combo of `btn`.
+        this.usedChains.forEach(chain => {
+            const className = chain[chain.length - 1];
+            const chainClasses = new Set(chain);
+            const combined = emptyRule();
+
+            classRules.forEach(entry => {
+                if (entry.classes.includes(className) && entry.classes.every(c => chainClasses.has(c))) {
+                    mergeRule(combined, entry.rule);
+                    entry.used = true;
+                }
+            });
 
-        // Extract advanced CSS that Webflow can't handle natively
-        // Combine external CSS with inline styles (before they're removed from DOM)
-        const combinedCss = css + '\n' + Array.from(doc.querySelectorAll('style'))
-            .map(s => s.textContent || '')
-            .join('\n');
+            const parentId = this.styleIdMap.get(chainKey(chain.slice(0, -1)));
+            this.createStyle(chainKey(chain), className, combined, parentId);
+        });
 
-        // Extract all advanced CSS (variables, media queries, attribute selectors, etc.)
-        const advancedCss = extractAdvancedCss(combinedCss);
+        // Only create class styles that are actually used in HTML
+        const keepUnused = this.options.unusedClasses === 'embed' && this.options.embedCustomCss;
+        classRules.forEach(entry => {
+            if (entry.used) return;
+            if (this.options.unusedClasses === 'embed') {
+                unusedCssRules.push(formatCssRule(entry.selector, entry.rule));
+            }
+            this.report('unused-class', 'info', keepUnused
+                ? `\`${entry.selector}\` isn't used in the HTML; it is kept in the custom CSS embed`
+                : `\`${entry.selector}\` isn't used in the HTML and was left out`, entry.rule.origin);
+        });
+
+        // Extract all advanced CSS that Webflow can't handle natively (variables, unmappable
+        // media queries, attribute selectors, etc.) from external CSS and inline <style> tags
+        const advancedCss = extractAdvancedCss(stylesheets, (sheet, node) => {
+            const label = node.type === 'rule' ? node.selector : `@${node.name}${node.prelude ? ` ${node.prelude}` : ''}`;
+            const origin = locators.get(sheet)!(node.loc);
+            if (this.options.embedCustomCss) {
+                this.report('custom-css', 'info', `\`${label}\` has no native Webflow equivalent; it is kept in the custom CSS embed`, origin);
+            } else {
+                this.report('custom-css-dropped', 'warning', `\`${label}\` has no native Webflow equivalent and was left out`, origin);
+            }
+        });
 
         // Collect all top-level element children (filter out ignored/empty)
         const topLevelChildren: string[] = [];
         Array.from(doc.body.children).forEach(child => {
-            const childId = this.processElement(child as Element);
-            if (childId) {
-                topLevelChildren.push(childId);
+            topLevelChildren.push(...this.processElement(child as Element));
+        });
+        if (topLevelChildren.length === 0) {
+            this.report('empty-document', 'warning', 'The HTML has no elements to convert');
+        }
+
+        // Complex rules that matched no element (and aren't already in the embed) are unused too
+        this.complexRules.forEach((rule, selector) => {
+            if (this.matchedComplexSelectors.has(selector) || isAdvancedSelector(selector)) return;
+            // Unsupported selectors may well match in the browser, so they're custom CSS rather than unused
+            if (this.unsupportedSelectors.has(selector)) {
+                unsupportedCssRules.push(formatCssRule(selector, rule));
+                return;
+            }
+            if (this.options.unusedClasses !== 'drop') {
+                unusedCssRules.push(formatCssRule(selector, rule));
             }
+            this.report('unused-selector', 'info', this.options.unusedClasses !== 'drop' && this.options.embedCustomCss
+                ? `\`${selector}\` matches no element; it is kept in the custom CSS embed`
+                : `\`${selector}\` matches no element and was left out`, rule.origin);
         });
 
+        // Every rule is now attached to a style: resolve the cascade into styleLess
+        this.resolveStyles();
+
         // Build advanced CSS content for custom embed
         const advancedCssParts: string[] = [];
 
@@ -489,6 +912,11 @@ export class WebflowConverter {
             advancedCssParts.push(advancedCss);
         }
 
+        // Add rules whose selectors couldn't be evaluated during conversion
+        if (unsupportedCssRules.length > 0) {
+            advancedCssParts.push(unsupportedCssRules.join('\n'));
+        }
+
         // Add unused class rules
         if (unusedCssRules.length > 0) {
             advancedCssParts.push('\n/* Unused Classes */');
@@ -496,7 +924,7 @@ export class WebflowConverter {
         }
 
         // Create custom embed with all advanced CSS
-        if (advancedCssParts.length > 0) {
+        if (advancedCssParts.length > 0 && this.options.embedCustomCss) {
             const advancedCssContent = `<style>\n${advancedCssParts.join('\n')}\n</style>`;
             const embedNode = this.createHtmlEmbed(advancedCssContent, false);
             this.nodes.push(embedNode);
@@ -528,7 +956,7 @@ export class WebflowConverter {
             };
             this.nodes.push(emptyNode);
             rootNodeId = emptyId;
-        } else if (topLevelChildren.length === 1) {
+        } else if (topLevelChildren.length === 1 && this.options.rootWrapping === 'auto') {
             // Single root - use it directly
             rootNodeId = topLevelChildren[0];
         } else {
@@ -538,7 +966,7 @@ export class WebflowConverter {
                 _id: wrapperId,
                 type: 'Block',
                 tag: 'div',
-                classes: [],
+                classes: rootClassName ? [this.styleIdMap.get(chainKey([rootClassName]))!] : [],
                 children: topLevelChildren,
                 data: {
                     text: false,
@@ -555,6 +983,8 @@ export class WebflowConverter {
             rootNodeId = wrapperId;
         }
 
+        this.resolveSectionLinks();
+
         // Reorder nodes so root is FIRST (Webflow requirement)
         const reorderedNodes = this.reorderNodesWithRootFirst(rootNodeId);
 
@@ -563,12 +993,13 @@ export class WebflowConverter {
             payload: {
                 nodes: reorderedNodes,
                 styles: this.styles,
-                assets: [],
+                assets: Array.from(this.assets.values()),
                 ix1: [],
                 ix2: { interactions: [], events: [], actionLists: [] }
             },
+            // Bindings, symbols and code components are never generated, so none can be removed
             meta: {
-                droppedLinks: 0,
+                droppedLinks: this.droppedLinks.length,
                 dynBindRemovedCount: 0,
                 dynListBindRemovedCount: 0,
                 paginationRemovedCount: 0,
@@ -579,6 +1010,112 @@ export class WebflowConverter {
         } as WebflowClipboardData;
     }
 
+    // Create a class style; passing a parent style id makes it a combo class chained to that parent.
+    // styleLess and variants are filled in by resolveStyles once every rule has been attached.
+    private createStyle(key: string, name: string, rule: ParsedRule, parentId?: string): WebflowStyle {
+        const styleId = uuidv4();
+        this.styleIdMap.set(key, styleId);
+        this.styleRules.set(styleId, rule);
+
+        const newStyle: WebflowStyle = {
+            _id: styleId,
+            fake: false,
+            type: 'class',
+            name,
+            namespace: '',
+            comb: parentId ? '&' : '',
+            styleLess: '',
+            variants: {},
+            children: [],
+            createdBy: '61f14380242f626709f24c30',
+            origin: null,
+            selector: null
+        };
+        this.styles.push(newStyle);
+        this.styleMap.set(styleId, newStyle);
+
+        if (parentId) {
+            this.styleParents.set(styleId, parentId);
+            this.styleMap.get(parentId)?.children.push(styleId);
+        }
+        return newStyle;
+    }
+
+    // Compute one clean styleLess per style and variant from the attached declarations
+    private resolveStyles(): void {
+        this.styleRules.forEach(rule => this.linkBackgroundImages(rule));
+
+        this.styles.forEach(style => {
+            const own = this.styleRules.get(style._id) ?? emptyRule();
+
+            // Rules of the whole combo chain, base class first
+            const chainRules: ParsedRule[] = [];
+            for (let id: string | undefined = style._id; id; id = this.styleParents.get(id)) {
+                chainRules.unshift(this.styleRules.get(id) ?? emptyRule());
+            }
+
+            style.styleLess = resolveVariant(chainRules, own, null);
+            style.variants = {};
+            Object.keys(own.variants).forEach(key => {
+                const styleLess = resolveVariant(chainRules, own, key);
+                if (styleLess) {
+                    style.variants[key] = { styleLess };
+                }
+            });
+        });
+    }
+
+    // Point background-image url(...) values at payload assets (@img_<id> in styleLess).
+    // Declarations are replaced rather than mutated since rules share them with the custom embed.
+    private linkBackgroundImages(rule: ParsedRule): void {
+        const link = (decl: CascadeDeclaration): CascadeDeclaration =>
+            decl.property === 'background-image' && !decl.value.startsWith('@raw<|')
+                ? { ...decl, value: replaceCssUrls(decl.value, url => `@img_${this.getAsset(url)._id}`) }
+                : decl;
+
+        rule.declarations = rule.declarations.map(link);
+        Object.keys(rule.variants).forEach(key => {
+            rule.variants[key] = rule.variants[key].map(link);
+        });
+    }
+
+    // Asset for an image URL, shared by every node and style that uses the URL
+    private getAsset(url: string, source: AssetSource = {}): WebflowAsset {
+        const existing = this.assets.get(url);
+        if (existing) {
+            if (!existing.altText && source.alt) existing.altText = source.alt;
+            return existing;
+        }
+
+        const asset = createAsset(url, this.options.files, source);
+        this.assets.set(url, asset);
+        return asset;
+    }
+
+    // Style for an element matched by complex or tag rules, shared by elements matching the same set.
+    // On a classed element it's a combo of the element's class chain (`parentId` is the chain's last style).
+    private getGeneratedStyleId(selectors: string[], parentId?: string): string {
+        const key = `matched:${parentId ? `${parentId}:` : ''}${selectors.join(',')}`;
+        const existingId = this.styleIdMap.get(key);
+        if (existingId) return existingId;
+
+        const name = this.uniqueGeneratedName(this.generateClassNameFromSelector(selectors[0]));
+        const rule = emptyRule();
+        selectors.forEach(selector => mergeRule(rule, this.complexRules.get(selector) ?? emptyRule()));
+        return this.createStyle(key, name, rule, parentId)._id;
+    }
+
+    // Webflow class names are unique: number generated names that are already taken (name-2, name-3)
+    private uniqueGeneratedName(baseName: string): string {
+        const taken = (name: string) => this.generatedNames.has(name) || this.styles.some(style => style.name === name);
+        let name = baseName;
+        for (let i = 2; taken(name); i++) {
+            name = `${baseName}-${i}`;
+        }
+        this.generatedNames.add(name);
+        return name;
+    }
+
     // Reorder nodes so root is first, followed by all descendants in tree order
     private reorderNodesWithRootFirst(rootId: string): WebflowNode[] {
         const nodeMap = new Map<string, WebflowNode>();
@@ -620,11 +1157,19 @@ export class WebflowConverter {
 
         // Skip ignored tags but still process their children
         if (!IGNORED_TAGS.has(tagName)) {
-            element.classList.forEach(className => {
-                this.usedClasses.add(className);
+            // Record every prefix of the class list: `a b c` uses base `a`, combo `a b` and combo `a b c`
+            const classNames = Array.from(element.classList);
+            classNames.forEach((_, i) => {
+                const chain = classNames.slice(0, i + 1);
+                this.usedChains.set(chainKey(chain), chain);
             });
         }
 
+        // SVG contents stay inside the converted svg, never as separate nodes
+        if (tagName === 'svg') {
+            return;
+        }
+
         Array.from(element.children).forEach(child => {
             const childTagName = child.tagName.toLowerCase();
             // Skip script and style tags entirely
@@ -664,6 +1209,196 @@ export class WebflowConverter {
         };
     }
 
+    // Navbar component from common nav markup: a brand/logo link, a menu of links (a list or a
+    // `.menu`/`.links` container) and an optional toggle button; other content stays where it is.
+    // Returns null when there is no menu.
+    private createNavbar(el: Element, classIds: string[]): string | null {
+        const classMatches = (node: Element, pattern: RegExp) => pattern.test(node.getAttribute('class') || '');
+        const descendants = Array.from(el.querySelectorAll('*'));
+
+        const menu = descendants.find(node => node.tagName.toLowerCase() === 'ul' || classMatches(node, NAV_MENU_PATTERN));
+        const menuLinks = menu ? Array.from(menu.querySelectorAll('a')) : [];
+        if (!menu || menuLinks.length === 0) {
+            return null;
+        }
+
+        const brand = descendants.find(node => node.tagName.toLowerCase() === 'a' && !menu.contains(node) &&
+            (classMatches(node, NAV_BRAND_PATTERN) || node.querySelector('img, svg') !== null));
+        const button = descendants.find(node => !menu.contains(node) && node !== brand &&
+            (node.tagName.toLowerCase() === 'button' || classMatches(node, NAV_BUTTON_PATTERN)));
+
+        // Each part of the navbar takes the place of its element; everything else around it is kept
+        const parts = new Map<Element, () => string[]>();
+
+        if (brand) {
+            parts.set(brand, () => {
+                const brandNode: WebflowNode = {
+                    _id: uuidv4(),
+                    type: 'NavbarBrand',
+                    tag: 'a',
+                    classes: this.resolveClassIds(brand),
+                    children: [],
+                    data: componentData(brand, { navbar: { type: 'brand' }, link: this.resolveLink(brand) })
+                };
+                this.appendChildren(brand, brandNode);
+                this.nodes.push(brandNode);
+                return [brandNode._id];
+            });
+        }
+
+        parts.set(menu, () => {
+            const linkParts = new Map<Element, () => string[]>();
+            menuLinks.forEach(link => linkParts.set(link, () => {
+                // Button-styled anchors stay Buttons inside the menu
+                if (this.matchesSelectorOption(link, this.options.linkButtonSelector)) {
+                    return this.processElement(link);
+                }
+                const linkNode: WebflowNode = {
+                    _id: uuidv4(),
+                    type: 'NavbarLink',
+                    tag: 'a',
+                    classes: this.resolveClassIds(link),
+                    children: [],
+                    data: componentData(link, { navbar: { type: 'link' }, link: this.resolveLink(link) })
+                };
+                this.appendChildren(link, linkNode);
+                this.nodes.push(linkNode);
+                return [linkNode._id];
+            }));
+
+            const menuNode: WebflowNode = {
+                _id: uuidv4(),
+                type: 'NavbarMenu',
+                tag: 'nav',
+                classes: this.resolveClassIds(menu),
+                children: [],
+                data: componentData(menu, { navbar: { type: 'menu' } })
+            };
+            // Links sit directly in the menu, so list items around them are unwrapped
+            this.appendNavbarContents(menu, menuNode, linkParts, true);
+            this.nodes.push(menuNode);
+            return [menuNode._id];
+        });
+
+        // The menu button always shows Webflow's menu icon
+        const createButton = () => {
+            const iconId = uuidv4();
+            this.nodes.push({
+                _id: iconId,
+                type: 'Icon',
+                tag: 'div',
+                classes: [],
+                children: [],
+                data: componentData(null, { widget: { type: 'icon', icon: 'nav-menu' } })
+            });
+            const buttonId = uuidv4();
+            this.nodes.push({
+                _id: buttonId,
+                type: 'NavbarButton',
+                tag: 'div',
+                classes: button ? this.resolveClassIds(button) : [],
+                children: [iconId],
+                data: componentData(button ?? null, { navbar: { type: 'button' } })
+            });
+            return [buttonId];
+        };
+        if (button) parts.set(button, createButton);
+
+        const wrapper: WebflowNode = {
+            _id: uuidv4(),
+            type: 'NavbarWrapper',
+            tag: 'div',
+            classes: classIds,
+            children: [],
+            data: componentData(el, { navbar: NAVBAR_WRAPPER_SETTINGS })
+        };
+        this.appendNavbarContents(el, wrapper, parts, false);
+        if (!button) wrapper.children?.push(...createButton());
+        this.nodes.push(wrapper);
+        return wrapper._id;
+    }
+
+    // HtmlEmbed holding an element's markup, sized by the element's own classes on the embed's div
+    private createWrappedEmbed(el: Element, classIds: string[]): string {
+        this.report('html-embed', 'info', `\`<${el.tagName.toLowerCase()}>\` is kept as an HtmlEmbed`, this.elementOrigin(el));
+        const embedNode = this.createHtmlEmbed(wrappedEmbedMarkup(el, classIds.length > 0), false);
+        embedNode.classes = classIds;
+        this.nodes.push(embedNode);
+        return embedNode._id;
+    }
+
+    // YouTube/Vimeo iframes become YouTubeVideo/Video elements; an autoplaying, looping, muted
+    // <video> without controls becomes a Background Video; other media keep their markup in an embed
+    private createMediaNode(el: Element, classIds: string[]): string {
+        const tagName = el.tagName.toLowerCase();
+        const data: Record<string, unknown> = {
+            text: false,
+            tag: 'div',
+            devlink: { runtimeProps: {}, slot: '' },
+            displayName: '',
+            attr: { id: el.getAttribute('id') || '' },
+            xattr: collectXattr(el),
+            search: { exclude: false },
+            visibility: { conditions: [] }
+        };
+        let type: string | null = null;
+
+        const hosted = tagName === 'iframe' ? parseHostedVideo(el.getAttribute('src') || '') : null;
+        if (hosted?.provider === 'youtube') {
+            type = 'YouTubeVideo';
+            data.youtube = {
+                videoId: hosted.id,
+                autoplay: hosted.autoplay,
+                muted: hosted.muted,
+                controls: hosted.controls,
+                loop: hosted.loop,
+                start: hosted.start,
+                privacyEnhanced: hosted.privacy,
+                title: el.getAttribute('title') || ''
+            };
+        } else if (hosted?.provider === 'vimeo') {
+            type = 'Video';
+            data.video = {
+                url: hosted.url,
+                html: el.outerHTML,
+                width: parseInt(el.getAttribute('width') || '', 10) || null,
+                height: parseInt(el.getAttribute('height') || '', 10) || null,
+                title: el.getAttribute('title') || ''
+            };
+        } else if (tagName === 'video' && el.hasAttribute('autoplay') && el.hasAttribute('loop') &&
+            el.hasAttribute('muted') && !el.hasAttribute('controls')) {
+            const sources = [el.getAttribute('src'), ...Array.from(el.querySelectorAll('source')).map(s => s.getAttribute('src'))]
+                .filter((src): src is string => !!src)
+                .map(src => this.options.files[src] ?? src);
+            const poster = el.getAttribute('poster');
+
+            if (sources.length > 0) {
+                type = 'BackgroundVideoWrapper';
+                data.video = {
+                    sources,
+                    posterImage: poster ? this.getAsset(poster)._id : '',
+                    autoplay: true,
+                    loop: true
+                };
+            }
+        }
+
+        if (!type) {
+            return this.createWrappedEmbed(el, classIds);
+        }
+
+        const node: WebflowNode = {
+            _id: uuidv4(),
+            type,
+            tag: 'div',
+            classes: classIds,
+            children: [],
+            data
+        };
+        this.nodes.push(node);
+        return node._id;
+    }
+
     // Create a DOM node for custom/unknown elements
     private createDomNode(el: Element, classIds: string[]): WebflowNode {
         const tagName = el.tagName.toLowerCase();
@@ -674,8 +1409,8 @@ export class WebflowConverter {
 
         Array.from(el.attributes).forEach(attr => {
             const attrName = attr.name.toLowerCase();
-            if (attrName === 'class') {
-                // Skip class attribute, handled separately
+            if (attrName === 'class' || attrName === 'style') {
+                // Skip class and style attributes, handled separately
                 return;
             }
 
@@ -708,119 +1443,407 @@ export class WebflowConverter {
         };
 
         // Process children
+        this.appendChildren(el, node);
+
+        return node;
+    }
+
+    // Process an element's children into node.children (elements recursively, text as rendered)
+    private appendChildren(el: Element, node: WebflowNode): void {
         Array.from(el.childNodes).forEach(child => {
-            if (child.nodeType === Node.ELEMENT_NODE) {
-                const childId = this.processElement(child as Element);
-                node.children?.push(childId);
-            } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
+            if (child.nodeType === ELEMENT_NODE) {
+                node.children?.push(...this.processElement(child as Element));
+            } else if (child.nodeType === TEXT_NODE) {
+                this.appendText(child, node);
+            }
+        });
+    }
+
+    private appendText(textNode: Node, node: WebflowNode): void {
+        const text = renderedText(textNode);
+        if (!text) return;
+
+        const textId = uuidv4();
+        this.nodes.push({
+            _id: textId,
+            text: true,
+            v: text
+        });
+        node.children?.push(textId);
+    }
+
+    // Like appendChildren for the contents of a navbar component: `parts` convert their own element,
+    // elements wrapping parts are kept as Blocks (or unwrapped with `unwrap`) and the rest converts as usual
+    private appendNavbarContents(el: Element, node: WebflowNode, parts: Map<Element, () => string[]>, unwrap: boolean): void {
+        Array.from(el.childNodes).forEach(child => {
+            if (child.nodeType === TEXT_NODE) {
+                this.appendText(child, node);
+                return;
+            }
+            if (child.nodeType !== ELEMENT_NODE) return;
+
+            const childEl = child as Element;
+            const part = parts.get(childEl);
+            if (part) {
+                node.children?.push(...part());
+                return;
+            }
+            if (!Array.from(parts.keys()).some(partEl => childEl.contains(partEl))) {
+                node.children?.push(...this.processElement(childEl));
+                return;
+            }
+
+            if (unwrap) {
+                if (['class', 'style', 'id'].some(attr => childEl.hasAttribute(attr))) {
+                    this.reportRemoved(childEl, 'ignored-element', `\`<${childEl.tagName.toLowerCase()}>\` in the navbar menu was replaced by its contents`);
+                }
+                this.appendNavbarContents(childEl, node, parts, unwrap);
+                return;
+            }
+
+            const block: WebflowNode = {
+                _id: uuidv4(),
+                type: 'Block',
+                tag: 'div',
+                classes: this.resolveClassIds(childEl),
+                children: [],
+                data: componentData(childEl, { text: false, tag: 'div' })
+            };
+            this.appendNavbarContents(childEl, block, parts, unwrap);
+            this.nodes.push(block);
+            node.children?.push(block._id);
+        });
+    }
+
+    // Map <form> and the controls inside it to Webflow form components. Returns the node ID,
+    // or null when the element isn't a form component (controls outside a <form> stay DOM nodes).
+    private createFormNode(el: Element, classIds: string[]): string | null {
+        const tagName = el.tagName.toLowerCase();
+
+        if (tagName === 'form') {
+            return this.createFormWrapper(el, classIds);
+        }
+        if (!el.parentElement?.closest('form')) {
+            return null;
+        }
+
+        let node: WebflowNode | null = null;
+
+        if (tagName === 'label') {
+            const toggle = el.querySelector('input[type="checkbox"], input[type="radio"]');
+            if (toggle) {
+                return this.createFormToggleField(el, classIds, toggle.getAttribute('type') === 'radio');
+            }
+            node = {
+                _id: uuidv4(),
+                type: 'FormBlockLabel',
+                tag: 'label',
+                classes: classIds,
+                children: [],
+                data: formNodeData(el, 'label', { for: el.getAttribute('for') || '' })
+            };
+            this.appendChildren(el, node);
+        } else if (tagName === 'textarea') {
+            node = this.createFormField(el, classIds, 'FormTextarea', 'textarea', 'textarea', {
+                placeholder: el.getAttribute('placeholder') || '',
+                maxlength: Number(el.getAttribute('maxlength')) || 5000,
+                autofocus: el.hasAttribute('autofocus'),
+            });
+        } else if (tagName === 'select') {
+            const opts = Array.from((el as HTMLSelectElement).querySelectorAll('option')).map(option => ({
+                v: option.getAttribute('value') ?? option.textContent?.trim() ?? '',
+                t: option.textContent?.trim() ?? ''
+            }));
+            node = this.createFormField(el, classIds, 'FormSelect', 'select', 'select', {
+                multiple: el.hasAttribute('multiple'),
+            }, { opts });
+        } else if (tagName === 'button' || tagName === 'input') {
+            const inputType = (el.getAttribute('type') || (tagName === 'button' ? 'submit' : 'text')).toLowerCase();
+
+            if (inputType === 'submit') {
+                const value = tagName === 'button' ? el.textContent?.trim() : el.getAttribute('value');
+                node = {
+                    _id: uuidv4(),
+                    type: 'FormButton',
+                    tag: 'input',
+                    classes: classIds,
+                    children: [],
+                    data: formNodeData(el, 'button', {
+                        type: 'submit',
+                        value: value || 'Submit',
+                        'data-wait': el.getAttribute('data-wait') || 'Please wait...'
+                    })
+                };
+            } else if (tagName === 'input' && TEXT_INPUT_TYPES.has(inputType)) {
+                node = this.createFormField(el, classIds, 'FormTextInput', 'input', 'input', {
+                    type: inputType,
+                    placeholder: el.getAttribute('placeholder') || '',
+                    maxlength: Number(el.getAttribute('maxlength')) || 256,
+                    autofocus: el.hasAttribute('autofocus'),
+                });
+            } else if (tagName === 'input' && inputType === 'checkbox') {
+                node = this.createFormField(el, classIds, 'FormCheckboxInput', 'input', 'checkbox-input', {
+                    type: 'checkbox',
+                    checked: el.hasAttribute('checked'),
+                });
+            } else if (tagName === 'input' && inputType === 'radio') {
+                node = this.createFormField(el, classIds, 'FormRadioInput', 'input', 'radio-input', {
+                    type: 'radio',
+                    value: el.getAttribute('value') || 'Radio',
+                    checked: el.hasAttribute('checked'),
+                });
+            }
+        }
+
+        if (!node) {
+            return null;
+        }
+        this.nodes.push(node);
+        return node._id;
+    }
+
+    // A named form control: name, data-name, required and autocomplete are common to all of them
+    private createFormField(el: Element, classIds: string[], type: string, tag: string, formType: string,
+        attr: Record<string, unknown>, extra: Record<string, unknown> = {}): WebflowNode {
+        const name = el.getAttribute('name') || el.getAttribute('id') || `field-${++this.formFieldCount}`;
+        const autocomplete = el.getAttribute('autocomplete');
+
+        return {
+            _id: uuidv4(),
+            type,
+            tag,
+            classes: classIds,
+            children: [],
+            data: formNodeData(el, formType, {
+                name,
+                'data-name': el.getAttribute('data-name') || name,
+                required: el.hasAttribute('required'),
+                ...(autocomplete ? { autocomplete } : {}),
+                ...attr
+            }, extra)
+        };
+    }
+
+    // <label> wrapping a checkbox or radio: the label text becomes the field's inline label
+    private createFormToggleField(el: Element, classIds: string[], isRadio: boolean): string {
+        const node: WebflowNode = {
+            _id: uuidv4(),
+            type: isRadio ? 'FormRadioWrapper' : 'FormCheckboxWrapper',
+            tag: 'label',
+            classes: classIds,
+            children: [],
+            data: formNodeData(el, isRadio ? 'radio-field' : 'checkbox-field', {})
+        };
+
+        Array.from(el.childNodes).forEach(child => {
+            if (child.nodeType === ELEMENT_NODE) {
+                node.children?.push(...this.processElement(child as Element));
+            } else if (child.nodeType === TEXT_NODE && child.textContent?.trim()) {
                 const textId = uuidv4();
+                const labelId = uuidv4();
+                this.nodes.push({ _id: textId, text: true, v: child.textContent.trim() });
                 this.nodes.push({
-                    _id: textId,
-                    text: true,
-                    v: child.textContent.trim()
+                    _id: labelId,
+                    type: 'FormInlineLabel',
+                    tag: 'span',
+                    classes: [],
+                    children: [textId],
+                    data: formNodeData(null, 'label', {})
                 });
-                node.children?.push(textId);
+                node.children?.push(labelId);
             }
         });
 
-        return node;
+        this.nodes.push(node);
+        return node._id;
+    }
+
+    // <form> becomes FormWrapper > FormForm plus the success and error messages Webflow requires
+    private createFormWrapper(el: Element, classIds: string[]): string {
+        const name = el.getAttribute('name') || el.getAttribute('id') || 'email-form';
+        const action = el.getAttribute('action');
+
+        const form: WebflowNode = {
+            _id: uuidv4(),
+            type: 'FormForm',
+            tag: 'form',
+            classes: classIds,
+            children: [],
+            data: formNodeData(el, 'form', {
+                name,
+                'data-name': el.getAttribute('data-name') || name,
+                method: (el.getAttribute('method') || 'get').toLowerCase(),
+                ...(action ? { action } : {})
+            })
+        };
+        this.appendChildren(el, form);
+        this.nodes.push(form);
+
+        const wrapper: WebflowNode = {
+            _id: uuidv4(),
+            type: 'FormWrapper',
+            tag: 'div',
+            classes: [],
+            children: [
+                form._id,
+                this.createFormMessage('FormSuccessMessage', 'msg-done', FORM_SUCCESS_MESSAGE),
+                this.createFormMessage('FormErrorMessage', 'msg-fail', FORM_ERROR_MESSAGE)
+            ],
+            data: formNodeData(null, 'wrapper', {})
+        };
+        this.nodes.push(wrapper);
+        return wrapper._id;
+    }
+
+    private createFormMessage(type: string, formType: string, message: string): string {
+        const textId = uuidv4();
+        const blockId = uuidv4();
+        const messageId = uuidv4();
+
+        this.nodes.push({ _id: textId, text: true, v: message });
+        this.nodes.push({
+            _id: blockId,
+            type: 'Block',
+            tag: 'div',
+            classes: [],
+            children: [textId],
+            data: {
+                text: true,
+                tag: 'div',
+                devlink: { runtimeProps: {}, slot: '' },
+                displayName: '',
+                attr: { id: '' },
+                xattr: [],
+                search: { exclude: false },
+                visibility: { conditions: [] }
+            }
+        });
+        this.nodes.push({
+            _id: messageId,
+            type,
+            tag: 'div',
+            classes: [],
+            children: [blockId],
+            data: formNodeData(null, formType, {})
+        });
+        return messageId;
+    }
+
+    // Style IDs for an element: its class chain, styles for matching tag/complex rules and its
+    // style="" attribute
+    private resolveClassIds(el: Element): string[] {
+        // Get class-based style IDs: the base class first, then each combo class in the chain
+        const classIds: string[] = [];
+        const classNames = Array.from(el.classList);
+        classNames.forEach((_, i) => {
+            const styleId = this.styleIdMap.get(chainKey(classNames.slice(0, i + 1)));
+            if (styleId) {
+                classIds.push(styleId);
+            }
+        });
+
+        // Apply matching complex or tag rules through a generated class
+        const matchedSelectors: string[] = [];
+        this.complexRules.forEach((_, selector) => {
+            if (!this.unsupportedSelectors.has(selector) && matchesSelector(el, selector)) {
+                matchedSelectors.push(selector);
+                this.matchedComplexSelectors.add(selector);
+            }
+        });
+
+        if (matchedSelectors.length > 0) {
+            // A classed element gets a combo on its chain, so the matches stay off the shared class
+            classIds.push(this.getGeneratedStyleId(matchedSelectors, classIds[classIds.length - 1]));
+        }
+
+        // Convert the style="" attribute into a generated class
+        this.applyInlineStyle(el, classIds);
+
+        return classIds;
     }
 
-    private processElement(el: Element): string {
+    // Convert an element and its subtree. Returns the IDs of the nodes that take its place in the
+    // parent: one node normally, none for skipped elements, and all children for unwrapped tags.
+    private processElement(el: Element): string[] {
         const tagName = el.tagName.toLowerCase();
 
-        // Skip ignored tags - but process their children
+        // Skip ignored tags - but process their children in place
         if (IGNORED_TAGS.has(tagName)) {
-            // For ignored container tags, process children and return first child's ID or empty wrapper
-            const childIds: string[] = [];
-            Array.from(el.childNodes).forEach(child => {
-                if (child.nodeType === Node.ELEMENT_NODE) {
-                    const childId = this.processElement(child as HTMLElement);
-                    if (childId) {
-                        childIds.push(childId);
-                    }
-                }
-            });
-            // Return first child ID if any, otherwise create a placeholder
-            return childIds[0] || '';
+            if (!DOCUMENT_TAGS.has(tagName)) {
+                this.reportRemoved(el, 'ignored-element', `\`<${tagName}>\` has no Webflow equivalent and was removed`);
+            }
+            return Array.from(el.children).flatMap(child => this.processElement(child));
+        }
+
+        // RichText blocks only hold text-level elements: unwrap anything else
+        if (this.richTextDepth > 0 && !RICH_TEXT_TYPES.has(TAG_MAP[tagName])) {
+            this.reportRemoved(el, 'rich-text-unwrapped', `\`<${tagName}>\` can't be placed inside RichText and was replaced by its contents`);
+            const unwrapped: WebflowNode = { _id: '', children: [] };
+            this.appendChildren(el, unwrapped);
+            return unwrapped.children ?? [];
         }
 
         // Handle script tags - wrap in HtmlEmbed
         if (tagName === 'script') {
+            this.report('html-embed', 'info', '`<script>` is kept as an HtmlEmbed', this.elementOrigin(el));
             const scriptHtml = el.outerHTML;
             const embedNode = this.createHtmlEmbed(scriptHtml, true);
             this.nodes.push(embedNode);
-            return embedNode._id;
+            return [embedNode._id];
         }
 
-        // Get class-based style IDs
-        const classIds: string[] = [];
-        el.classList.forEach(className => {
-            const styleId = this.styleIdMap.get(className);
-            if (styleId) {
-                classIds.push(styleId);
-            }
-        });
+        // <picture> collapses into its fallback <img>
+        if (tagName === 'picture') {
+            return this.processPicture(el);
+        }
 
-        // Apply matching complex or tag rules as custom style classes or merge into existing
-        this.complexRules.forEach((styleLess, selector) => {
-            try {
-                if (el.matches(selector)) {
-                    // Strategy: If element already has classes, merge logic. If not, add new logic.
-                    if (classIds.length > 0) {
-                        // MERGE STRATEGY: Apply styles to the first existing class
-                        const targetStyleId = classIds[0];
-                        const mergeKey = `${targetStyleId}:${selector}`;
-
-                        if (!this.processedMerges.has(mergeKey)) {
-                            const styleObj = this.styleMap.get(targetStyleId);
-                            if (styleObj) {
-                                // Append the style properties
-                                // Adding a space for safety
-                                styleObj.styleLess += ` ${styleLess}`;
-                                this.processedMerges.add(mergeKey);
-                            }
-                        }
-                    } else {
-                        // NEW CLASS STRATEGY: Apply the generated custom-styled class
-                        const generatedName = this.selectorToClassMap.get(selector);
-                        if (generatedName) {
-                            const styleId = this.styleIdMap.get(generatedName);
-                            if (styleId && !classIds.includes(styleId)) {
-                                classIds.push(styleId);
-                            }
-                        }
-                    }
-                }
-            } catch (e) {
-                // Ignore invalid selectors (e.g. pseudo-selectors like :hover which el.matches might not like)
+        // Inline SVG as an image asset: convert an equivalent <img> instead
+        if (tagName === 'svg' && this.options.inlineSvg === 'asset') {
+            return this.processElement(svgToImage(el));
+        }
+
+        const classIds = this.resolveClassIds(el);
+
+        // Inline SVG as a single embed; the embed's div takes over the svg's classes
+        if (tagName === 'svg') {
+            return [this.createWrappedEmbed(el, classIds)];
+        }
+
+        // <nav> as a Webflow Navbar component when its parts can be detected
+        if (tagName === 'nav' && this.options.navbar) {
+            const navbarId = this.createNavbar(el, classIds);
+            if (navbarId) {
+                return [navbarId];
             }
-        });
+        }
+
+        // Hosted videos, background videos and other media
+        if (MEDIA_TAGS.has(tagName)) {
+            return [this.createMediaNode(el, classIds)];
+        }
 
+        // Forms and their controls map to Webflow's native form components
+        const formNodeId = this.createFormNode(el, classIds);
+        if (formNodeId) {
+            return [formNodeId];
+        }
 
-        // Check if this is a known element type
-        const type = TAG_MAP[tagName];
+        // Check if this is a known element type (or long-form content to turn into RichText)
+        const isRichText = this.richTextDepth === 0 && this.matchesSelectorOption(el, this.options.richTextSelector);
+        const type = isRichText ? 'RichText' : this.nativeContainers.has(el) ? 'Container' : TAG_MAP[tagName];
 
         // Unknown elements use DOM type
         if (!type) {
+            this.report('custom-element', 'info', `\`<${tagName}>\` has no Webflow element type; it was converted to a custom element`, this.elementOrigin(el));
             const domNode = this.createDomNode(el, classIds);
             this.nodes.push(domNode);
-            return domNode._id;
+            return [domNode._id];
         }
 
         const id = uuidv4();
 
         // Extract custom attributes for xattr (data-*, aria-*, and any non-standard attributes)
-        const xattr: Array<{ name: string, value: string }> = [];
-        Array.from(el.attributes).forEach(attr => {
-            const attrName = attr.name.toLowerCase();
-            // Include data-* and aria-* attributes, plus any non-standard attributes
-            if (attrName.startsWith('data-') ||
-                attrName.startsWith('aria-') ||
-                !STANDARD_ATTRS.has(attrName)) {
-                xattr.push({ name: attr.name, value: attr.value });
-            }
-        });
+        const xattr = collectXattr(el);
 
         // Get the ID attribute if present
         const elementId = el.getAttribute('id') || '';
@@ -842,43 +1865,50 @@ export class WebflowConverter {
             data.grid = { type: 'section' };
         }
 
+        if (type === 'Container') {
+            data.grid = { type: 'container' };
+        }
+
         if (type === 'Link') {
-            const linkEl = el as HTMLAnchorElement;
-            const href = linkEl.getAttribute('href') || '#';
-
-            // Determine link mode based on href
-            let linkMode = 'external';
-            if (href.startsWith('#')) {
-                linkMode = 'section';
-            } else if (href.startsWith('mailto:')) {
-                linkMode = 'email';
-            } else if (href.startsWith('tel:')) {
-                linkMode = 'phone';
-            }
-
-            data.link = {
-                mode: linkMode,
-                href: href,
-                target: linkEl.getAttribute('target') || '_self'
-            };
-            data.button = false;
-            data.block = 'inline';
+            data.link = this.resolveLink(el);
+
+            // <button> and anchors matching linkButtonSelector become Buttons;
+            // anchors wrapping block-level content become Link Blocks
+            const isButton = tagName === 'button' || this.matchesSelectorOption(el, this.options.linkButtonSelector);
+            const isBlock = !isButton && Array.from(el.children).some(child => !isInline(child));
+            data.tag = 'a';
+            data.button = isButton;
+            data.block = isBlock ? 'block' : isButton ? '' : 'inline';
             data.eventIds = []; // Required eventIds array
         }
 
         if (type === 'Image') {
             const imgEl = el as HTMLImageElement;
-            const assetId = uuidv4(); // Generate asset ID for the image
+            const src = imgEl.getAttribute('src') || '';
+            const alt = imgEl.getAttribute('alt') || '';
+            const asset = src
+                ? this.getAsset(src, {
+                    alt,
+                    width: parseInt(imgEl.getAttribute('width') || '', 10) || undefined,
+                    height: parseInt(imgEl.getAttribute('height') || '', 10) || undefined
+                })
+                : null;
+
+            // srcset candidates become responsive variants of the asset
+            const srcset = imgEl.getAttribute('srcset');
+            if (asset && srcset) {
+                addSrcsetVariants(asset, parseSrcset(srcset), this.options.files);
+            }
 
             data.img = {
-                id: assetId // Required img.id
+                id: asset?._id ?? '' // Required img.id, pointing at the payload asset
             };
             data.srcsetDisabled = false;
-            data.sizes = [];
+            data.sizes = parseSizes(imgEl.getAttribute('sizes') || '');
             data.attr = {
-                id: '',
-                src: imgEl.getAttribute('src') || '',
-                alt: imgEl.getAttribute('alt') || '',
+                id: elementId,
+                src: asset?.cdnUrl ?? '',
+                alt,
                 loading: imgEl.getAttribute('loading') || 'lazy',
                 width: imgEl.getAttribute('width') || 'auto',
                 height: imgEl.getAttribute('height') || 'auto'
@@ -893,7 +1923,7 @@ export class WebflowConverter {
             data.list = { type: 'item' };
         }
 
-        // Handle Section special case - needs wrapper container
+        // Handle Section special case - container wrapping per ConverterOptions.sectionWrapping
         if (type === 'Section') {
             const node: WebflowNode = {
                 _id: id,
@@ -904,14 +1934,17 @@ export class WebflowConverter {
                 data
             };
 
-            // Check if section has direct content children that need wrapping
+            // A section styled as a container, or with a container child, needs no wrapper
             const directChildren = Array.from(el.children);
-            const hasBlockWrapper = directChildren.some(child => {
-                const childTag = child.tagName.toLowerCase();
-                return childTag === 'div' && child.classList.contains('container');
-            });
+            const selector = this.options.sectionContainerSelector;
+            const container = directChildren.find(child => this.matchesSelectorOption(child, selector));
+            const isContainer = this.matchesSelectorOption(el, selector);
+
+            if (this.options.sectionWrapping === 'container' && container) {
+                this.nativeContainers.add(container);
+            }
 
-            if (!hasBlockWrapper && directChildren.length > 0) {
+            if (this.options.sectionWrapping === 'wrap' && !container && !isContainer && directChildren.length > 0) {
                 // Create a wrapper container for section children
                 const wrapperId = uuidv4();
                 const wrapperNode: WebflowNode = {
@@ -933,79 +1966,244 @@ export class WebflowConverter {
                 };
 
                 // Process children into the wrapper
-                Array.from(el.childNodes).forEach(child => {
-                    if (child.nodeType === Node.ELEMENT_NODE) {
-                        const childId = this.processElement(child as Element);
-                        wrapperNode.children?.push(childId);
-                    } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
-                        const textId = uuidv4();
-                        this.nodes.push({
-                            _id: textId,
-                            text: true,
-                            v: child.textContent.trim()
-                        });
-                        wrapperNode.children?.push(textId);
-                    }
-                });
+                this.appendChildren(el, wrapperNode);
 
                 this.nodes.push(wrapperNode);
                 node.children?.push(wrapperId);
             } else {
                 // Process children normally
-                Array.from(el.childNodes).forEach(child => {
-                    if (child.nodeType === Node.ELEMENT_NODE) {
-                        const childId = this.processElement(child as HTMLElement);
-                        node.children?.push(childId);
-                    } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
-                        const textId = uuidv4();
-                        this.nodes.push({
-                            _id: textId,
-                            text: true,
-                            v: child.textContent.trim()
-                        });
-                        node.children?.push(textId);
-                    }
-                });
+                this.appendChildren(el, node);
             }
 
             this.nodes.push(node);
-            return id;
+            return [id];
         }
 
         // Regular element processing
         const node: WebflowNode = {
             _id: id,
             type,
-            tag: tagName,
+            tag: type === 'Link' ? 'a' : tagName,
             classes: classIds,
             children: [],
             data
         };
 
         // Process children
-        Array.from(el.childNodes).forEach(child => {
-            if (child.nodeType === Node.ELEMENT_NODE) {
-                const childId = this.processElement(child as Element);
-                node.children?.push(childId);
-            } else if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
-                const textId = uuidv4();
-                this.nodes.push({
-                    _id: textId,
-                    text: true,
-                    v: child.textContent.trim()
-                });
-                node.children?.push(textId);
+        if (isRichText) this.richTextDepth++;
+        this.appendChildren(el, node);
+        if (isRichText) this.richTextDepth--;
+
+        this.nodes.push(node);
+        return [id];
+    }
+
+    // <picture>: type-switching sources (webp/avif alternatives) feed the fallback <img> when it has
+    // no src of its own; art-direction sources follow ConverterOptions.pictureArtDirection
+    private processPicture(el: Element): string[] {
+        const sources = Array.from(el.children).filter(child => child.tagName.toLowerCase() === 'source');
+        const img = Array.from(el.children).find(child => child.tagName.toLowerCase() === 'img');
+
+        if (sources.some(source => source.hasAttribute('media')) && this.options.pictureArtDirection === 'embed') {
+            this.report('html-embed', 'info', '`<picture>` with art-direction sources is kept as an HtmlEmbed', this.elementOrigin(el));
+            const embedNode = this.createHtmlEmbed(el.outerHTML, false);
+            this.nodes.push(embedNode);
+            return [embedNode._id];
+        }
+
+        // Without a usable <img>, the last source without a media query is the most compatible
+        const fallback = sources.filter(source => !source.hasAttribute('media')).pop();
+        const image = img ?? el.ownerDocument.createElement('img');
+        const fallbackSrcset = fallback?.getAttribute('srcset') || '';
+        const candidates = parseSrcset(fallbackSrcset);
+        let used: Element | null = null;
+        if (!image.getAttribute('src') && fallback && candidates.length > 0) {
+            used = fallback;
+            const size = (c: { width?: number, density?: number }) => c.width ?? c.density ?? 0;
+            const largest = candidates.reduce((best, c) => (size(c) > size(best) ? c : best));
+            image.setAttribute('src', largest.url);
+            image.setAttribute('srcset', fallbackSrcset);
+            if (fallback.getAttribute('sizes')) image.setAttribute('sizes', fallback.getAttribute('sizes') || '');
+        }
+        if (!image.getAttribute('src')) {
+            this.report('ignored-element', 'warning', '`<picture>` has no image source and was removed', this.elementOrigin(el));
+            return [];
+        }
+
+        // The image shows a single source: every other art-direction or format candidate is lost
+        sources.filter(source => source !== used).forEach(source => {
+            const media = source.getAttribute('media');
+            const type = source.getAttribute('type');
+            const candidate = media ? `for \`${media}\`` : type ? `of type \`${type}\`` : '';
+            this.report('ignored-element', 'warning', `\`<source>\`${candidate ? ` ${candidate}` : ''} in \`<picture>\` was dropped; only the fallback image is kept`, this.elementOrigin(source));
+        });
+
+        // Classes on the <picture> style the image when the <img> has none of its own
+        if (!image.getAttribute('class') && el.getAttribute('class')) {
+            image.setAttribute('class', el.getAttribute('class') || '');
+        }
+
+        return this.processElement(image);
+    }
+
+    // Link settings for an anchor: email, phone, file (as an asset), page (via ConverterOptions.pages),
+    // in-snippet section or external. Relative links that match no page are reported as dropped.
+    private resolveLink(el: Element): Record<string, unknown> {
+        const href = (el.getAttribute('href') || '#').trim();
+        const link: Record<string, unknown> = {
+            mode: 'external',
+            href,
+            target: el.getAttribute('target') || '_self'
+        };
+        const rel = el.getAttribute('rel');
+        if (rel) link.rel = rel;
+
+        const path = href.split(/[?#]/)[0];
+        const isRelative = !/^([a-z][a-z\d+.-]*:|\/\/|#)/i.test(href);
+
+        if (href.startsWith('#')) {
+            link.mode = 'section';
+            // Targets are checked once the whole snippet is converted
+            if (href.length > 1) this.sectionLinks.push({ link, id: fragmentId(href), el });
+        } else if (/^mailto:/i.test(href)) {
+            link.mode = 'email';
+        } else if (/^tel:/i.test(href)) {
+            link.mode = 'phone';
+        } else if (el.hasAttribute('download') || DOWNLOAD_EXTENSION.test(path)) {
+            link.mode = 'file';
+            link.asset = this.getAsset(href)._id;
+        } else if (isRelative) {
+            const slug = pageSlug(path);
+            if (slug !== null && this.options.pages.includes(slug)) {
+                link.mode = 'page';
+                link.page = slug;
+            } else {
+                this.dropLink(el, href, 'matches none of the site\'s pages');
             }
+        }
+
+        return link;
+    }
+
+    // Section links whose #id matches no converted element can't be linked in Webflow
+    private resolveSectionLinks(): void {
+        const ids = new Set<string>();
+        this.nodes.forEach(node => {
+            const id = node.data?.attr?.id ??
+                node.data?.attributes?.find((attr: { name: string }) => attr.name === 'id')?.value;
+            if (id) ids.add(id);
         });
 
-        this.nodes.push(node);
-        return id;
+        this.sectionLinks.forEach(({ link, id, el }) => {
+            if (ids.has(id)) {
+                link.section = id;
+            } else {
+                this.dropLink(el, `#${id}`, 'points at no element in the snippet');
+            }
+        });
+    }
+
+    // Whether an element matches a selector from the options (an empty or unsupported selector matches nothing)
+    private matchesSelectorOption(el: Element, selector: string): boolean {
+        if (!selector) return false;
+        if (!this.unsupportedSelectors.has(selector) && !this.isSupportedSelector(el, selector)) {
+            this.report('unsupported-selector', 'warning', `\`${selector}\` in the converter options can't be evaluated here and matches nothing`);
+        }
+        return !this.unsupportedSelectors.has(selector) && matchesSelector(el, selector);
+    }
+
+    // Whether el.matches can evaluate a selector. It throws on invalid syntax, and non-browser
+    // implementations also on selectors they don't support (e.g. :placeholder-shown with linkedom).
+    // Unsupported selectors are remembered so they're reported and skipped once.
+    private isSupportedSelector(el: Element, selector: string): boolean {
+        if (this.unsupportedSelectors.has(selector)) return false;
+        try {
+            matchesSelector(el, selector);
+            return true;
+        } catch {
+            this.unsupportedSelectors.add(selector);
+            return false;
+        }
+    }
+
+    private report(code: DiagnosticCode, severity: Diagnostic['severity'], message: string, origin: DiagnosticOrigin = NO_ORIGIN): void {
+        this.diagnostics.push({ code, severity, message, ...origin });
+    }
+
+    // Diagnostic origin of an element: its start tag (unknown for elements built during conversion)
+    private elementOrigin(el: Element): DiagnosticOrigin {
+        return { source: 'html', loc: this.htmlLocations.get(el) ?? null };
+    }
+
+    // Report an element that was dropped from the output; losing its styling makes it a warning
+    private reportRemoved(el: Element, code: DiagnosticCode, message: string): void {
+        const lost = ['class', 'style', 'id'].filter(attr => el.hasAttribute(attr));
+        if (lost.length > 0) {
+            const attrs = lost.map(attr => `${attr}=""`).join(', ');
+            this.report(code, 'warning', `${message}; its ${attrs} ${lost.length > 1 ? 'were' : 'was'} lost`, this.elementOrigin(el));
+        } else {
+            this.report(code, 'info', message, this.elementOrigin(el));
+        }
+    }
+
+    // Links that can't be linked natively stay as URLs; they're counted in meta.droppedLinks
+    private dropLink(el: Element, href: string, reason: string): void {
+        this.droppedLinks.push(href);
+        this.report('unresolved-link', 'warning', `Link to \`${href}\` ${reason}; it is kept as a plain URL`, this.elementOrigin(el));
+    }
+
+    // Turn an element's style="" attribute into a generated class (see ConverterOptions.inlineStyles).
+    // Updates classIds in place.
+    private applyInlineStyle(el: Element, classIds: string[]): void {
+        const styleAttr = el.getAttribute('style');
+        if (!styleAttr) return;
+
+        const declarations = expandDeclarations(parseCssDeclarations(styleAttr), this.sourceOrder)
+            .map(decl => ({ ...decl, specificity: [0, 0, 0] as Specificity, inline: true }));
+        if (declarations.length === 0) return;
+
+        const parentId = classIds[classIds.length - 1];
+
+        if (this.options.inlineStyles === 'combo') {
+            // Identical inline styles on the same class chain share one combo class
+            const signature = declarations.map(d => `${d.property}:${d.value}${d.important ? '!' : ''}`).join(';');
+            const key = `inline:${classIds.join(' ')}:${signature}`;
+            const existingId = this.styleIdMap.get(key);
+            if (existingId) {
+                classIds.push(existingId);
+                return;
+            }
+
+            const style = this.createStyle(key, this.inlineStyleName(el), { declarations, variants: {} }, parentId);
+            classIds.push(style._id);
+            return;
+        }
+
+        // 'class': fold the element's whole class chain plus its inline styles into one class
+        const rule = emptyRule();
+        classIds.forEach(id => mergeRule(rule, this.styleRules.get(id) ?? emptyRule()));
+        rule.declarations.push(...declarations);
+
+        const name = this.inlineStyleName(el);
+        const style = this.createStyle(`inline:${name}`, name, rule);
+        classIds.splice(0, classIds.length, style._id);
+    }
+
+    private inlineStyleName(el: Element): string {
+        const tagName = el.tagName.toLowerCase();
+        const classNames = Array.from(el.classList);
+        const index = String(++this.inlineStyleCount);
+
+        return this.uniqueGeneratedName(this.options.inlineStyleClassName
+            .replace(/\{class\}/g, classNames[classNames.length - 1] ?? tagName)
+            .replace(/\{tag\}/g, tagName)
+            .replace(/\{index\}/g, index));
     }
 
     private generateClassNameFromSelector(selector: string): string {
         // Handle common tag styles specifically
         if (/^[h1-6]$|^p$|^div$|^span$|^a$|^button$|^input$|^section$|^header$|^footer$|^main$|^aside$|^nav$/.test(selector)) {
-            return `custom-styled-${selector}`;
+            return `${this.options.tagStylePrefix}${selector}`;
         }
 
         // Slugify the selector for others
@@ -1015,6 +2213,6 @@ export class WebflowConverter {
             .trim()
             .replace(/\s+/g, '-') // spaces to hyphen
             .replace(/-+/g, '-') // multiple hyphens to single
-            .replace(/^/, 'scoped-style-'); // prefix to avoid collisions
+            .replace(/^/, this.options.scopedStylePrefix); // prefix to avoid collisions
     }
 }
@@ -0,0 +1,453 @@
+// CSS tokenizer and parser producing a small AST with source positions.
+// Handles comments, strings, url(...) (including unquoted data URIs), escapes,
+// nested at-rules (@media, @supports, @layer, @container, ...) and CSS nesting.
+
+export interface SourcePosition {
+    offset: number;
+    line: number; // 1-based
+    column: number; // 1-based
+}
+
+export interface SourceLocation {
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+export interface CssSyntaxError {
+    message: string;
+    loc: SourceLocation;
+}
+
+export interface CssDeclaration {
+    type: 'declaration';
+    property: string;
+    value: string;
+    important: boolean;
+    loc: SourceLocation;
+}
+
+export interface CssStyleRule {
+    type: 'rule';
+    selector: string; // full selector text with whitespace collapsed
+    selectors: string[]; // selector list split on top-level commas
+    declarations: CssDeclaration[];
+    rules: CssNode[]; // nested rules (CSS nesting)
+    loc: SourceLocation;
+}
+
+export interface CssAtRule {
+    type: 'atrule';
+    name: string; // lowercased, without the @
+    prelude: string;
+    declarations: CssDeclaration[];
+    rules: CssNode[];
+    hasBlock: boolean; // false for statements like @import
+    loc: SourceLocation;
+}
+
+export type CssNode = CssStyleRule | CssAtRule;
+
+export interface CssStylesheet {
+    type: 'stylesheet';
+    rules: CssNode[];
+    source: string;
+    errors: CssSyntaxError[]; // problems the parser recovered from
+}
+
+type TokenType =
+    | 'whitespace'
+    | 'comment'
+    | 'string'
+    | 'url'
+    | 'at-keyword'
+    | 'word'
+    | '{'
+    | '}'
+    | '('
+    | ')'
+    | '['
+    | ']'
+    | ';'
+    | ':'
+    | ','
+    | 'eof';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    start: number;
+    end: number;
+}
+
+const PUNCTUATION = new Set(['{', '}', '(', ')', '[', ']', ';', ':', ',']);
+
+function isWhitespace(char: string): boolean {
+    return char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f';
+}
+
+function isWordBoundary(char: string): boolean {
+    return isWhitespace(char) || PUNCTUATION.has(char) || char === '"' || char === "'" || char === '@';
+}
+
+export function tokenizeCss(css: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const push = (type: TokenType, start: number) => {
+        tokens.push({ type, value: css.substring(start, i), start, end: i });
+    };
+
+    while (i < css.length) {
+        const start = i;
+        const char = css[i];
+
+        if (isWhitespace(char)) {
+            while (i < css.length && isWhitespace(css[i])) i++;
+            push('whitespace', start);
+        } else if (char === '/' && css[i + 1] === '*') {
+            const close = css.indexOf('*/', i + 2);
+            i = close === -1 ? css.length : close + 2;
+            push('comment', start);
+        } else if (char === '"' || char === "'") {
+            i++;
+            while (i < css.length && css[i] !== char && css[i] !== '\n') {
+                i += css[i] === '\\' ? 2 : 1;
+            }
+            i = Math.min(i + 1, css.length);
+            push('string', start);
+        } else if (char === '@') {
+            i++;
+            while (i < css.length && !isWordBoundary(css[i])) {
+                i += css[i] === '\\' ? 2 : 1;
+            }
+            push('at-keyword', start);
+        } else if (PUNCTUATION.has(char)) {
+            i++;
+            push(char as TokenType, start);
+        } else {
+            while (i < css.length && !isWordBoundary(css[i]) && !(css[i] === '/' && css[i + 1] === '*')) {
+                i += css[i] === '\\' ? 2 : 1;
+            }
+            i = Math.min(i, css.length);
+
+            // Unquoted url(...) may contain ; } or quotes-free data, so consume it as one token
+            if (/^url$/i.test(css.substring(start, i)) && css[i] === '(') {
+                let j = i + 1;
+                while (j < css.length && isWhitespace(css[j])) j++;
+                if (css[j] !== '"' && css[j] !== "'") {
+                    while (j < css.length && css[j] !== ')') {
+                        j += css[j] === '\\' ? 2 : 1;
+                    }
+                    i = Math.min(j + 1, css.length);
+                    push('url', start);
+                    continue;
+                }
+            }
+            push('word', start);
+        }
+    }
+
+    tokens.push({ type: 'eof', value: '', start: css.length, end: css.length });
+    return tokens;
+}
+
+// Offsets at which each line of the source starts, for sourcePosition
+export function lineStarts(source: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+// Line and column of an offset, given the source's lineStarts
+export function sourcePosition(starts: number[], offset: number): SourcePosition {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (starts[mid] <= offset) low = mid;
+        else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - starts[low] + 1 };
+}
+
+const CLOSING: Partial<Record<TokenType, TokenType>> = { '(': ')', '[': ']', '{': '}' };
+
+class CssParser {
+    private tokens: Token[];
+    private pos = 0;
+    private lineStarts: number[];
+    private source: string;
+    private errors: CssSyntaxError[] = [];
+
+    constructor(source: string) {
+        this.source = source;
+        this.tokens = tokenizeCss(source);
+        this.lineStarts = lineStarts(source);
+    }
+
+    parse(): CssStylesheet {
+        const { rules } = this.parseBlockContents(true);
+        return { type: 'stylesheet', rules, source: this.source, errors: this.errors };
+    }
+
+    // Parse the source as the contents of a block, e.g. a style="" attribute
+    parseDeclarations(): CssDeclaration[] {
+        return this.parseBlockContents(false).declarations;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.pos];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.pos];
+        if (token.type !== 'eof') this.pos++;
+        return token;
+    }
+
+    private skipTrivia(): void {
+        while (this.peek().type === 'whitespace' || this.peek().type === 'comment') this.pos++;
+    }
+
+    private location(start: number, end: number): SourceLocation {
+        return { start: sourcePosition(this.lineStarts, start), end: sourcePosition(this.lineStarts, end) };
+    }
+
+    private error(message: string, start: number, end: number): void {
+        this.errors.push({ message, loc: this.location(start, end) });
+    }
+
+    // Blocks end at their `}`; anything else means the source ran out first
+    private checkBlockClosed(description: string, start: number): void {
+        if (this.tokens[this.pos - 1].type !== '}') {
+            this.error(`Missing \`}\` to close ${description}`, start, this.source.length);
+        }
+    }
+
+    // Look ahead from the current token: does a `{` come before `;` or `}` at this nesting level?
+    private startsNestedBlock(): boolean {
+        let depth = 0;
+        for (let i = this.pos; i < this.tokens.length; i++) {
+            const type = this.tokens[i].type;
+            if (type === '(' || type === '[') depth++;
+            else if (type === ')' || type === ']') depth = Math.max(0, depth - 1);
+            else if (depth === 0 && type === '{') return true;
+            else if (depth === 0 && (type === ';' || type === '}')) return false;
+            else if (type === 'eof') return false;
+        }
+        return false;
+    }
+
+    // Parse the contents of a block (or the whole stylesheet) up to the matching `}`
+    private parseBlockContents(topLevel: boolean): { declarations: CssDeclaration[]; rules: CssNode[] } {
+        const declarations: CssDeclaration[] = [];
+        const rules: CssNode[] = [];
+
+        for (;;) {
+            this.skipTrivia();
+            const token = this.peek();
+
+            if (token.type === 'eof') break;
+            if (token.type === '}') {
+                // Stray closing braces at the top level are skipped
+                this.next();
+                if (topLevel) {
+                    this.error('Unexpected `}`', token.start, token.end);
+                    continue;
+                }
+                break;
+            }
+            if (token.type === ';') {
+                this.next();
+                continue;
+            }
+
+            if (token.type === 'at-keyword') {
+                rules.push(this.parseAtRule());
+            } else if (this.startsNestedBlock()) {
+                rules.push(this.parseStyleRule());
+            } else if (token.type === ')' || token.type === ']') {
+                this.skipUnexpected();
+            } else {
+                const declaration = this.parseDeclaration();
+                // Declarations are meaningless outside a block
+                if (declaration && !topLevel) declarations.push(declaration);
+                if (declaration && topLevel) {
+                    this.error(`Declaration \`${declaration.property}\` outside a rule`, declaration.loc.start.offset, declaration.loc.end.offset);
+                }
+            }
+        }
+
+        return { declarations, rules };
+    }
+
+    // An unbalanced `)` or `]` can't start anything; report and drop it so parsing moves on
+    private skipUnexpected(): void {
+        const token = this.next();
+        this.error(`Unexpected \`${token.value}\``, token.start, token.end);
+    }
+
+    // Collect tokens until one of the stop types at nesting depth 0 (the stop token is not consumed)
+    private collectUntil(stops: TokenType[]): Token[] {
+        const collected: Token[] = [];
+        const stack: TokenType[] = [];
+
+        for (;;) {
+            const token = this.peek();
+            if (token.type === 'eof') break;
+            if (stack.length === 0 && stops.includes(token.type)) break;
+
+            const closing = CLOSING[token.type];
+            if (closing) {
+                stack.push(closing);
+            } else if (stack.length > 0 && token.type === stack[stack.length - 1]) {
+                stack.pop();
+            } else if (stack.length === 0 && (token.type === ')' || token.type === ']' || token.type === '}')) {
+                // Unbalanced closer: stop rather than swallowing the rest of the stylesheet
+                break;
+            }
+            collected.push(this.next());
+        }
+
+        return collected;
+    }
+
+    private parseStyleRule(): CssStyleRule {
+        const startToken = this.peek();
+        const selectorTokens = this.collectUntil(['{']);
+        // startsNestedBlock found a `{`, so anything in the way is a stray closer
+        while (this.peek().type !== '{' && this.peek().type !== 'eof') {
+            this.skipUnexpected();
+            selectorTokens.push(...this.collectUntil(['{']));
+        }
+        this.next(); // {
+        const { declarations, rules } = this.parseBlockContents(false);
+        const end = this.tokens[this.pos - 1].end;
+        const selector = joinTokens(selectorTokens);
+        if (!selector) this.error('Rule without a selector', startToken.start, end);
+        this.checkBlockClosed(selector ? `\`${selector}\`` : 'rule', startToken.start);
+
+        return {
+            type: 'rule',
+            selector,
+            selectors: splitTokens(selectorTokens, ',').map(joinTokens).filter(Boolean),
+            declarations,
+            rules,
+            loc: this.location(startToken.start, end)
+        };
+    }
+
+    private parseAtRule(): CssAtRule {
+        const keyword = this.next();
+        const name = keyword.value.substring(1).toLowerCase();
+        const preludeTokens = this.collectUntil(['{', ';', '}']);
+        while (this.peek().type === ')' || this.peek().type === ']') {
+            this.skipUnexpected();
+            preludeTokens.push(...this.collectUntil(['{', ';', '}']));
+        }
+        const terminator = this.peek();
+
+        let declarations: CssDeclaration[] = [];
+        let rules: CssNode[] = [];
+        let hasBlock = false;
+
+        if (terminator.type === '{') {
+            this.next();
+            hasBlock = true;
+            // Blocks may hold rules (@media), declarations (@font-face) or both (@page)
+            ({ declarations, rules } = this.parseBlockContents(false));
+            this.checkBlockClosed(`\`@${name}\``, keyword.start);
+        } else if (terminator.type === ';') {
+            this.next();
+        }
+
+        const end = this.tokens[this.pos - 1].end;
+        return {
+            type: 'atrule',
+            name,
+            prelude: joinTokens(preludeTokens),
+            declarations,
+            rules,
+            hasBlock,
+            loc: this.location(keyword.start, end)
+        };
+    }
+
+    private parseDeclaration(): CssDeclaration | null {
+        const startToken = this.peek();
+        const tokens = this.collectUntil([';', '}']);
+        const endToken = tokens[tokens.length - 1] ?? startToken;
+        if (this.peek().type === ';') this.next();
+
+        const colonIndex = tokens.findIndex(t => t.type === ':');
+        const property = colonIndex === -1 ? '' : joinTokens(tokens.slice(0, colonIndex));
+        if (!property) {
+            const text = joinTokens(tokens);
+            if (text) this.error(`Invalid declaration \`${text}\``, startToken.start, endToken.end);
+            return null;
+        }
+        let value = joinTokens(tokens.slice(colonIndex + 1));
+
+        const importantMatch = value.match(/\s*!\s*important$/i);
+        if (importantMatch) {
+            value = value.substring(0, value.length - importantMatch[0].length);
+        }
+
+        return {
+            type: 'declaration',
+            // Custom properties are case-sensitive; everything else is normalized
+            property: property.startsWith('--') ? property : property.toLowerCase(),
+            value,
+            important: !!importantMatch,
+            loc: this.location(startToken.start, endToken.end)
+        };
+    }
+}
+
+// Join token text, dropping comments and collapsing whitespace (string contents are untouched)
+function joinTokens(tokens: Token[]): string {
+    let text = '';
+    tokens.forEach(token => {
+        if (token.type === 'comment' || token.type === 'whitespace') {
+            if (!text.endsWith(' ')) text += ' ';
+        } else {
+            text += token.value;
+        }
+    });
+    return text.trim();
+}
+
+// Split tokens on a separator at nesting depth 0
+function splitTokens(tokens: Token[], separator: TokenType): Token[][] {
+    const groups: Token[][] = [[]];
+    let depth = 0;
+
+    tokens.forEach(token => {
+        if (token.type === '(' || token.type === '[') depth++;
+        else if (token.type === ')' || token.type === ']') depth = Math.max(0, depth - 1);
+
+        if (depth === 0 && token.type === separator) {
+            groups.push([]);
+        } else {
+            groups[groups.length - 1].push(token);
+        }
+    });
+
+    return groups;
+}
+
+export function parseCss(css: string): CssStylesheet {
+    return new CssParser(css).parse();
+}
+
+// Parse a bare declaration list such as the value of an inline style attribute
+export function parseCssDeclarations(css: string): CssDeclaration[] {
+    return new CssParser(css).parseDeclarations();
+}
+
+// Original source text for a node, including comments and formatting
+export function sourceText(stylesheet: CssStylesheet, node: CssNode): string {
+    return stylesheet.source.substring(node.loc.start.offset, node.loc.end.offset);
+}
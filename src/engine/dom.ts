@@ -0,0 +1,31 @@
+// DOM access for the converter. In the browser HTML is parsed by the native DOMParser; in Node.js
+// scripts, build pipelines and tests a pure-JS parser is passed in through ConverterOptions.domParser
+// (see src/node.ts, which uses linkedom's parser and selector matcher).
+import type { HtmlDomParser } from './types';
+
+// Node.nodeType values (the global Node only exists in browsers)
+export const ELEMENT_NODE = 1;
+export const TEXT_NODE = 3;
+export const COMMENT_NODE = 8;
+
+export function parseHtml(html: string, parser: HtmlDomParser | null): Document {
+    if (parser) return parser.parseFromString(html, 'text/html');
+    if (typeof DOMParser === 'undefined') {
+        throw new Error('No DOMParser available: set ConverterOptions.domParser when running outside a browser');
+    }
+    return new DOMParser().parseFromString(html, 'text/html');
+}
+
+// Selectors with a pseudo-element never match an element. Browsers return false for them,
+// non-browser matchers may throw instead, so they're answered here.
+const PSEUDO_ELEMENT = /::|:(?:before|after|first-line|first-letter)(?![\w-])/i;
+
+export function hasPseudoElement(selector: string): boolean {
+    return PSEUDO_ELEMENT.test(selector);
+}
+
+// Element.matches, throwing on selectors the matcher can't parse
+export function matchesSelector(el: Element, selector: string): boolean {
+    if (hasPseudoElement(selector)) return false;
+    return el.matches(selector);
+}
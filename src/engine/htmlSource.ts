@@ -0,0 +1,87 @@
+// Source positions for parsed HTML elements. DOMParser keeps none, so start tags are scanned from
+// the source text and paired, in document order, with the parsed elements of the same name.
+// Elements the parser implies (a missing <tbody>, <html> or <body>) have no position.
+import { lineStarts, sourcePosition, type SourceLocation } from './cssParser';
+
+// Elements whose contents are text, not markup
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes']);
+
+interface StartTag {
+    name: string;
+    start: number;
+    end: number;
+}
+
+function scanStartTags(html: string): StartTag[] {
+    const tags: StartTag[] = [];
+    const tagName = /<([a-zA-Z][^\s/>]*)/y;
+    let i = 0;
+
+    while (i < html.length) {
+        const lt = html.indexOf('<', i);
+        if (lt === -1) break;
+
+        if (html.startsWith('<!--', lt)) {
+            const close = html.indexOf('-->', lt + 4);
+            i = close === -1 ? html.length : close + 3;
+            continue;
+        }
+
+        tagName.lastIndex = lt;
+        const match = tagName.exec(html);
+        if (!match) {
+            i = lt + 1;
+            continue;
+        }
+
+        // The tag ends at the first `>` outside a quoted attribute value
+        let j = tagName.lastIndex;
+        while (j < html.length && html[j] !== '>') {
+            if (html[j] === '"' || html[j] === "'") {
+                const close = html.indexOf(html[j], j + 1);
+                j = close === -1 ? html.length : close + 1;
+            } else {
+                j++;
+            }
+        }
+
+        const name = match[1].toLowerCase();
+        const end = Math.min(j + 1, html.length);
+        tags.push({ name, start: lt, end });
+        i = end;
+
+        if (RAW_TEXT_TAGS.has(name)) {
+            const closeTag = new RegExp(`</${name}`, 'gi');
+            closeTag.lastIndex = end;
+            i = closeTag.exec(html)?.index ?? html.length;
+        }
+    }
+
+    return tags;
+}
+
+// Map every element under root to the location of its start tag in the html it was parsed from
+export function locateElements(html: string, root: Element): Map<Element, SourceLocation> {
+    const starts = lineStarts(html);
+    const queues = new Map<string, StartTag[]>();
+    scanStartTags(html).forEach(tag => {
+        const queue = queues.get(tag.name) ?? [];
+        queue.push(tag);
+        queues.set(tag.name, queue);
+    });
+
+    const locations = new Map<Element, SourceLocation>();
+    const visit = (el: Element) => {
+        const tag = queues.get(el.tagName.toLowerCase())?.shift();
+        if (tag) {
+            locations.set(el, { start: sourcePosition(starts, tag.start), end: sourcePosition(starts, tag.end) });
+        }
+        // <template> keeps its parsed markup in a separate fragment
+        const content = el.tagName.toLowerCase() === 'template' ? (el as HTMLTemplateElement).content : null;
+        const children = content ? content.children : el.children;
+        Array.from(children).forEach(visit);
+    };
+    visit(root);
+
+    return locations;
+}
@@ -0,0 +1,78 @@
+// Media helpers: recognize hosted-video URLs (YouTube, Vimeo) in iframes and links.
+
+export interface HostedVideo {
+    provider: 'youtube' | 'vimeo';
+    id: string;
+    url: string; // canonical watch URL
+    autoplay: boolean;
+    muted: boolean;
+    controls: boolean;
+    loop: boolean;
+    start: number; // seconds
+    privacy: boolean; // youtube-nocookie.com / Vimeo do-not-track
+}
+
+function parseUrl(src: string): URL | null {
+    try {
+        return new URL(src.startsWith('//') ? `https:${src}` : src);
+    } catch {
+        return null;
+    }
+}
+
+// Start offsets are written as `90`, `90s` or `1m30s`
+function parseStart(value: string | null): number {
+    if (!value) return 0;
+    const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+    if (!match) return 0;
+    return (Number(match[1] ?? 0) * 3600) + (Number(match[2] ?? 0) * 60) + Number(match[3] ?? 0);
+}
+
+export function parseHostedVideo(src: string): HostedVideo | null {
+    const url = parseUrl(src);
+    if (!url) return null;
+
+    const host = url.hostname.replace(/^(www|m)\./, '');
+    const params = url.searchParams;
+    const flag = (name: string) => params.get(name) === '1' || params.get(name) === 'true';
+
+    let id: string | undefined;
+    if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+        id = url.pathname.match(/^\/(?:embed|shorts|live|v)\/([\w-]{6,})/)?.[1] ??
+            (url.pathname === '/watch' ? params.get('v') ?? undefined : undefined);
+    } else if (host === 'youtu.be') {
+        id = url.pathname.match(/^\/([\w-]{6,})/)?.[1];
+    }
+    if (id) {
+        return {
+            provider: 'youtube',
+            id,
+            url: `https://www.youtube.com/watch?v=${id}`,
+            autoplay: flag('autoplay'),
+            muted: flag('mute'),
+            controls: params.get('controls') !== '0',
+            loop: flag('loop'),
+            start: parseStart(params.get('start') ?? params.get('t')),
+            privacy: host === 'youtube-nocookie.com',
+        };
+    }
+
+    if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+        id = url.pathname.match(/^\/(?:video\/)?(\d+)/)?.[1];
+    }
+    if (id) {
+        return {
+            provider: 'vimeo',
+            id,
+            url: `https://vimeo.com/${id}`,
+            autoplay: flag('autoplay'),
+            muted: flag('muted'),
+            controls: params.get('controls') !== '0',
+            loop: flag('loop'),
+            start: parseStart(url.hash.match(/^#t=(.+)$/)?.[1] ?? null),
+            privacy: flag('dnt'),
+        };
+    }
+
+    return null;
+}
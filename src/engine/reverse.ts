@@ -0,0 +1,375 @@
+// Reverse conversion: Webflow clipboard data (@webflow/XscpData) back to HTML and CSS.
+// Nodes become elements (honoring data.tag, attr, xattr, links and images); styles become class
+// rules with their variants as pseudo-classes and media queries.
+import { BREAKPOINT_QUERIES, parseVariantKey } from './converter';
+import type { GeneratedCode, WebflowAsset, WebflowClipboardData, WebflowNode, WebflowStyle } from './types';
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Elements kept on the line of their surrounding text
+const INLINE_TAGS = new Set([
+    'a', 'abbr', 'b', 'br', 'cite', 'code', 'em', 'i', 'img', 'kbd', 'label', 'mark', 'q', 's', 'small',
+    'span', 'strong', 'sub', 'sup', 'time', 'u',
+]);
+
+// Classes Webflow's runtime gives components. Form messages stay hidden until the form is sent.
+const COMPONENT_CLASSES: Record<string, string> = {
+    FormWrapper: 'w-form',
+    FormSuccessMessage: 'w-form-done',
+    FormErrorMessage: 'w-form-fail',
+};
+
+const COMPONENT_CSS = `.w-form-done,
+.w-form-fail {
+    display: none;
+}`;
+
+// Media queries in output order: desktop-down breakpoints first, then large-desktop ones
+const BREAKPOINT_ORDER = ['medium', 'small', 'tiny', 'large', 'xl', 'xxl'];
+
+// Four-sided long-hands folded back into their shorthand when all are set
+const BOX_SHORTHANDS: Record<string, string[]> = {
+    margin: ['margin-top', 'margin-right', 'margin-bottom', 'margin-left'],
+    padding: ['padding-top', 'padding-right', 'padding-bottom', 'padding-left'],
+    'border-radius': ['border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius'],
+};
+
+const BORDER_SIDES = ['top', 'right', 'bottom', 'left'];
+
+interface Declaration {
+    property: string;
+    value: string;
+}
+
+function escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+// Class name as Webflow publishes it: spaces and other invalid characters become hyphens
+function className(style: WebflowStyle): string {
+    return style.name.trim().replace(/[^\w-]+/g, '-').toLowerCase();
+}
+
+// Split a styleLess string into declarations. Semicolons inside parentheses, strings and
+// @raw<|...|> values don't end a declaration.
+function parseStyleLess(styleLess: string): Declaration[] {
+    const parts: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quote = '';
+    let raw = false;
+
+    for (let i = 0; i < styleLess.length; i++) {
+        const char = styleLess[i];
+        if (raw) {
+            if (styleLess.startsWith('|>', i)) raw = false;
+        } else if (quote) {
+            if (char === quote) quote = '';
+        } else if (styleLess.startsWith('@raw<|', i)) {
+            raw = true;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth = Math.max(0, depth - 1);
+        } else if (char === ';' && depth === 0) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current);
+
+    return parts.flatMap(part => {
+        const colon = part.indexOf(':');
+        const property = part.substring(0, colon).trim();
+        const value = part.substring(colon + 1).trim();
+        return colon > 0 && property && value ? [{ property, value }] : [];
+    });
+}
+
+// Turn Webflow value syntax back into CSS: @raw<|...|> is unwrapped, @img_<id> becomes the asset
+// URL and @var_<id> a custom property
+function unwrapValue(value: string, assets: Map<string, WebflowAsset>): string {
+    return value
+        .replace(/@raw<\|([\s\S]*?)\|>/g, '$1')
+        .replace(/@img_([\w-]+)/g, (_, id: string) => `url("${assets.get(id)?.cdnUrl ?? id}")`)
+        .replace(/@var_([\w-]+)/g, 'var(--$1)');
+}
+
+// Shortest 1-4 value form of a box shorthand (top, right, bottom, left)
+function boxValue([top, right, bottom, left]: string[]): string {
+    if (left !== right) return `${top} ${right} ${bottom} ${left}`;
+    if (bottom !== top) return `${top} ${right} ${bottom}`;
+    if (right !== top) return `${top} ${right}`;
+    return top;
+}
+
+// Fold complete sets of long-hands into margin, padding, border-radius, gap and border
+function collapseShorthands(declarations: Declaration[]): Declaration[] {
+    const values = new Map(declarations.map(decl => [decl.property, decl.value]));
+    const replaced = new Map<string, Declaration | null>(); // long-hand -> shorthand at its position (null: drop)
+
+    const fold = (longhands: string[], shorthand: Declaration) => {
+        longhands.forEach((property, i) => replaced.set(property, i === 0 ? shorthand : null));
+    };
+
+    Object.entries(BOX_SHORTHANDS).forEach(([shorthand, longhands]) => {
+        if (longhands.every(property => values.has(property))) {
+            fold(longhands, { property: shorthand, value: boxValue(longhands.map(property => values.get(property)!)) });
+        }
+    });
+
+    const rowGap = values.get('grid-row-gap');
+    const columnGap = values.get('grid-column-gap');
+    if (rowGap && columnGap) {
+        fold(['grid-row-gap', 'grid-column-gap'], { property: 'gap', value: rowGap === columnGap ? rowGap : `${rowGap} ${columnGap}` });
+    }
+
+    const borderLonghands = BORDER_SIDES.flatMap(side => ['width', 'style', 'color'].map(part => `border-${side}-${part}`));
+    const sideValue = (side: string) => ['width', 'style', 'color'].map(part => values.get(`border-${side}-${part}`)).join(' ');
+    if (borderLonghands.every(property => values.has(property)) && BORDER_SIDES.every(side => sideValue(side) === sideValue('top'))) {
+        fold(borderLonghands, { property: 'border', value: sideValue('top') });
+    }
+
+    return declarations.flatMap(decl => {
+        if (!replaced.has(decl.property)) return [decl];
+        const shorthand = replaced.get(decl.property);
+        return shorthand ? [shorthand] : [];
+    });
+}
+
+function formatDeclarations(styleLess: string, assets: Map<string, WebflowAsset>, indent: string): string {
+    const declarations = parseStyleLess(styleLess).map(decl => ({ ...decl, value: unwrapValue(decl.value, assets) }));
+    return collapseShorthands(declarations).map(decl => `${indent}${decl.property}: ${decl.value};`).join('\n');
+}
+
+// CSS for every style: base rules and state variants first, then one @media block per breakpoint
+function generateCss(styles: WebflowStyle[], assets: Map<string, WebflowAsset>): string {
+    const parents = new Map<string, WebflowStyle>();
+    styles.forEach(style => (style.children ?? []).forEach(childId => parents.set(childId, style)));
+
+    // Combo classes are written with their whole chain: .button.is-large
+    const selectorFor = (style: WebflowStyle): string => {
+        const parent = style.comb === '&' ? parents.get(style._id) : undefined;
+        return `${parent ? selectorFor(parent) : ''}.${className(style)}`;
+    };
+
+    const rules: string[] = [];
+    const mediaRules = new Map<string, string[]>(BREAKPOINT_ORDER.map(key => [key, []]));
+
+    styles.forEach(style => {
+        const selector = selectorFor(style);
+        if (style.styleLess.trim()) {
+            rules.push(`${selector} {\n${formatDeclarations(style.styleLess, assets, '    ')}\n}`);
+        }
+
+        Object.entries(style.variants ?? {}).forEach(([key, variant]) => {
+            if (!variant.styleLess?.trim()) return;
+            const { breakpoint, state, pseudo } = parseVariantKey(key);
+            // States the converter doesn't know are written as the pseudo-class of the same name
+            const stateSelector = `${selector}${pseudo || (state ? `:${state}` : '')}`;
+
+            if (breakpoint) {
+                mediaRules.get(breakpoint)?.push(`    ${stateSelector} {\n${formatDeclarations(variant.styleLess, assets, '        ')}\n    }`);
+            } else {
+                rules.push(`${stateSelector} {\n${formatDeclarations(variant.styleLess, assets, '    ')}\n}`);
+            }
+        });
+    });
+
+    mediaRules.forEach((blockRules, breakpoint) => {
+        if (blockRules.length > 0) {
+            rules.push(`@media ${BREAKPOINT_QUERIES[breakpoint]} {\n${blockRules.join('\n\n')}\n}`);
+        }
+    });
+
+    return rules.join('\n\n');
+}
+
+// href for Webflow link settings (our own `href` or Webflow's `url`)
+function linkHref(link: Record<string, unknown>, assets: Map<string, WebflowAsset>): string {
+    const url = String(link.href ?? link.url ?? '');
+    switch (link.mode) {
+        case 'page':
+            return typeof link.page === 'string' ? `/${link.page}` : url || '/';
+        case 'section':
+            return typeof link.section === 'string' ? `#${link.section}` : url || '#';
+        case 'file':
+            return (typeof link.asset === 'string' && assets.get(link.asset)?.cdnUrl) || url;
+        default:
+            return url || '#';
+    }
+}
+
+function youtubeEmbedUrl(youtube: Record<string, unknown>): string {
+    const params = new URLSearchParams();
+    if (youtube.autoplay) params.set('autoplay', '1');
+    if (youtube.muted) params.set('mute', '1');
+    if (youtube.controls === false) params.set('controls', '0');
+    if (youtube.loop) params.set('loop', '1');
+    if (Number(youtube.start) > 0) params.set('start', String(youtube.start));
+    const host = youtube.privacyEnhanced ? 'www.youtube-nocookie.com' : 'www.youtube.com';
+    const query = params.toString();
+    return `https://${host}/embed/${youtube.videoId}${query ? `?${query}` : ''}`;
+}
+
+// Lookups shared while writing the HTML
+interface WriteContext {
+    nodes: Map<string, WebflowNode>;
+    classNames: Map<string, string>; // style id -> class name
+    assets: Map<string, WebflowAsset>;
+}
+
+function tagOf(node: WebflowNode): string {
+    if (node.type === 'DOM') return node.data?.tag || 'div';
+    if (node.type === 'LineBreak') return 'br';
+    if (node.type === 'Link') return 'a';
+    if (node.type === 'Image') return 'img';
+    return node.data?.tag || node.tag || 'div';
+}
+
+function isInlineNode(node: WebflowNode): boolean {
+    return !!node.text || INLINE_TAGS.has(tagOf(node));
+}
+
+function nodeAttributes(context: WriteContext, node: WebflowNode): Array<[string, string | true]> {
+    const data = node.data ?? {};
+    const attributes: Array<[string, string | true]> = [];
+    const has = (name: string) => attributes.some(([existing]) => existing === name);
+    const add = (name: string, value: unknown) => {
+        if (value === true) attributes.push([name, true]);
+        else if ((typeof value === 'string' && value !== '') || typeof value === 'number') attributes.push([name, String(value)]);
+    };
+
+    const classes = [COMPONENT_CLASSES[node.type ?? ''], ...(node.classes ?? []).map(id => context.classNames.get(id))].filter(Boolean);
+    if (classes.length > 0) add('class', classes.join(' '));
+
+    if (node.type === 'DOM') {
+        (data.attributes ?? []).forEach((attr: { name: string, value: string }) => add(attr.name, attr.value));
+        return attributes;
+    }
+
+    // Links, link blocks and buttons, but also NavbarLink and NavbarBrand
+    if (data.link) {
+        add('href', linkHref(data.link, context.assets));
+        if (data.link.target && data.link.target !== '_self') add('target', data.link.target);
+        add('rel', data.link.rel);
+    }
+
+    if (node.type === 'Image') {
+        const asset = context.assets.get(data.img?.id);
+        add('src', asset?.cdnUrl ?? data.attr?.src);
+        attributes.push(['alt', data.attr?.alt ?? asset?.altText ?? '']);
+        const srcset = (asset?.variants ?? [])
+            .filter(variant => variant.width)
+            .map(variant => `${variant.cdnUrl} ${variant.width}w`);
+        if (srcset.length > 0) {
+            add('srcset', srcset.join(', '));
+            add('sizes', (data.sizes ?? []).map((s: { media: string, size: string }) => `${s.media} ${s.size}`.trim()).join(', '));
+        }
+    }
+
+    Object.entries(data.attr ?? {}).forEach(([name, value]) => {
+        if ((name === 'width' || name === 'height') && value === 'auto') return;
+        if (!has(name)) add(name, value);
+    });
+    (data.xattr ?? []).forEach((attr: { name: string, value: string }) => {
+        if (!has(attr.name)) add(attr.name, attr.value);
+    });
+
+    return attributes;
+}
+
+function openTag(tag: string, attributes: Array<[string, string | true]>): string {
+    const attrs = attributes.map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`));
+    return `<${tag}${attrs.join('')}>`;
+}
+
+function writeNode(context: WriteContext, node: WebflowNode, indent: string): string {
+    if (node.text) return escapeText(node.v ?? '');
+
+    const data = node.data ?? {};
+    if (node.type === 'HtmlEmbed') {
+        const html = data.embed?.meta?.html ?? node.v ?? '';
+        // An embed with classes renders inside its own styled div
+        return node.classes?.length ? `${indent}${openTag('div', nodeAttributes(context, node))}${html}</div>` : `${indent}${html}`;
+    }
+    if (node.type === 'YouTubeVideo' && data.youtube) {
+        const attributes = nodeAttributes(context, node);
+        attributes.push(['src', youtubeEmbedUrl(data.youtube)], ['allowfullscreen', true]);
+        if (data.youtube.title) attributes.push(['title', data.youtube.title]);
+        return `${indent}${openTag('iframe', attributes)}</iframe>`;
+    }
+    if (node.type === 'Video' && data.video?.html) {
+        return `${indent}${openTag('div', nodeAttributes(context, node))}${data.video.html}</div>`;
+    }
+
+    const tag = tagOf(node);
+    const attributes = nodeAttributes(context, node);
+    if (node.type === 'BackgroundVideoWrapper' && data.video) {
+        attributes.push(['autoplay', true], ['loop', true], ['muted', true], ['playsinline', true]);
+        const poster = context.assets.get(data.video.posterImage)?.cdnUrl;
+        if (poster) attributes.push(['poster', poster]);
+    }
+    if (VOID_TAGS.has(tag)) return `${indent}${openTag(tag, attributes)}`;
+
+    const children = (node.children ?? [])
+        .map(id => context.nodes.get(id))
+        .filter((child): child is WebflowNode => !!child);
+    const inner: string[] = [];
+    if (node.type === 'FormSelect') {
+        (data.form?.opts ?? []).forEach((opt: { v: string, t: string }) => {
+            inner.push(`<option value="${escapeAttribute(opt.v)}">${escapeText(opt.t)}</option>`);
+        });
+    }
+    if (node.type === 'BackgroundVideoWrapper') {
+        (data.video?.sources ?? []).forEach((src: string) => inner.push(`<source src="${escapeAttribute(src)}">`));
+    }
+
+    const open = openTag(tag, attributes);
+    const close = `</${tag}>`;
+
+    // Text-level content stays on one line; block content gets a line per child
+    if (inner.length === 0 && children.every(isInlineNode)) {
+        return `${indent}${open}${children.map(child => writeNode(context, child, '')).join('')}${close}`;
+    }
+    const childIndent = `${indent}    `;
+    const lines = [
+        ...inner.map(line => `${childIndent}${line}`),
+        ...children
+            .filter(child => !child.text || child.v?.trim())
+            .map(child => (child.text ? `${childIndent}${escapeText(child.v ?? '').trim()}` : writeNode(context, child, childIndent))),
+    ];
+    return `${indent}${open}\n${lines.join('\n')}\n${indent}${close}`;
+}
+
+// Regenerate HTML and CSS from Webflow clipboard data
+export function webflowToCode(data: WebflowClipboardData): GeneratedCode {
+    if (data?.type !== '@webflow/XscpData' || !Array.isArray(data.payload?.nodes)) {
+        throw new Error('Not Webflow clipboard data: expected type "@webflow/XscpData" with payload.nodes');
+    }
+    const styles = data.payload.styles ?? [];
+    const context: WriteContext = {
+        nodes: new Map(data.payload.nodes.map(node => [node._id, node])),
+        classNames: new Map(styles.map(style => [style._id, className(style)])),
+        assets: new Map((data.payload.assets ?? []).map(asset => [asset._id, asset])),
+    };
+
+    // Top-level nodes are the ones that aren't anyone's child, in payload order
+    const childIds = new Set(data.payload.nodes.flatMap(node => node.children ?? []));
+    const html = data.payload.nodes
+        .filter(node => !childIds.has(node._id))
+        .map(node => writeNode(context, node, ''))
+        .join('\n');
+
+    const hasForms = data.payload.nodes.some(node => node.type === 'FormWrapper');
+    const css = [hasForms ? COMPONENT_CSS : '', generateCss(styles, context.assets)].filter(Boolean).join('\n\n');
+    return { html, css };
+}
@@ -0,0 +1,695 @@
+// Shorthand expansion: Webflow's styleLess expects long-hand properties, so shorthands are
+// split into their longhands following the CSS specs, including the initial values a shorthand
+// implicitly resets (e.g. `border: 1px solid` also sets border-*-color to currentcolor).
+
+export interface Longhand {
+    property: string;
+    value: string;
+}
+
+const GLOBAL_KEYWORDS = new Set(['inherit', 'initial', 'unset', 'revert', 'revert-layer']);
+
+const SIDES = ['top', 'right', 'bottom', 'left'];
+const CORNERS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+const BORDER_STYLES = new Set(['none', 'hidden', 'dotted', 'dashed', 'solid', 'double', 'groove', 'ridge', 'inset', 'outset']);
+const BORDER_WIDTHS = new Set(['thin', 'medium', 'thick']);
+
+const FONT_STYLES = new Set(['italic', 'oblique']);
+const FONT_VARIANTS = new Set(['small-caps']);
+const FONT_WEIGHTS = new Set(['bold', 'bolder', 'lighter']);
+const FONT_STRETCHES = new Set([
+    'ultra-condensed', 'extra-condensed', 'condensed', 'semi-condensed',
+    'semi-expanded', 'expanded', 'extra-expanded', 'ultra-expanded',
+]);
+const FONT_SIZES = new Set([
+    'xx-small', 'x-small', 'small', 'medium', 'large', 'x-large', 'xx-large', 'xxx-large', 'larger', 'smaller',
+]);
+const SYSTEM_FONTS = new Set(['caption', 'icon', 'menu', 'message-box', 'small-caption', 'status-bar']);
+
+const FLEX_DIRECTIONS = new Set(['row', 'row-reverse', 'column', 'column-reverse']);
+const FLEX_WRAPS = new Set(['nowrap', 'wrap', 'wrap-reverse']);
+
+const TIMING_FUNCTIONS = new Set(['ease', 'linear', 'ease-in', 'ease-out', 'ease-in-out', 'step-start', 'step-end']);
+const TRANSITION_BEHAVIORS = new Set(['normal', 'allow-discrete']);
+
+const LIST_STYLE_POSITIONS = new Set(['inside', 'outside']);
+
+const TEXT_DECORATION_LINES = new Set(['none', 'underline', 'overline', 'line-through', 'blink']);
+const TEXT_DECORATION_STYLES = new Set(['solid', 'double', 'dotted', 'dashed', 'wavy']);
+
+const BACKGROUND_REPEATS = new Set(['repeat-x', 'repeat-y', 'repeat', 'space', 'round', 'no-repeat']);
+const BACKGROUND_ATTACHMENTS = new Set(['scroll', 'fixed', 'local']);
+const BACKGROUND_BOXES = new Set(['border-box', 'padding-box', 'content-box', 'text']);
+const BACKGROUND_POSITIONS = new Set(['left', 'right', 'top', 'bottom', 'center']);
+const BACKGROUND_SIZES = new Set(['auto', 'cover', 'contain']);
+
+// Split a value on top-level separators, keeping functions, brackets and strings intact.
+// Whitespace runs count as a single separator.
+function splitTopLevel(value: string, isSeparator: (char: string) => boolean): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quote = '';
+
+    for (const char of value) {
+        if (quote) {
+            if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth = Math.max(0, depth - 1);
+        } else if (depth === 0 && isSeparator(char)) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current);
+
+    return parts.map(p => p.trim()).filter(Boolean);
+}
+
+function splitWords(value: string): string[] {
+    return splitTopLevel(value, char => /\s/.test(char));
+}
+
+function splitLayers(value: string): string[] {
+    return splitTopLevel(value, char => char === ',');
+}
+
+function splitSlash(value: string): string[] {
+    return splitTopLevel(value, char => char === '/');
+}
+
+function isNumber(token: string): boolean {
+    return /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(token);
+}
+
+// Lengths and percentages, including math functions
+function isLength(token: string): boolean {
+    return /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?([a-z]+|%)$/i.test(token) ||
+        token === '0' ||
+        /^(calc|min|max|clamp|var|env)\(/i.test(token);
+}
+
+function isTime(token: string): boolean {
+    return /^[+-]?(\d+\.?\d*|\.\d+)m?s$/i.test(token);
+}
+
+function isImage(token: string): boolean {
+    return /^(url|image|image-set|-webkit-image-set|cross-fade|element|paint|(repeating-)?(linear|radial|conic)-gradient|-webkit-(repeating-)?(linear|radial)-gradient)\(/i.test(token);
+}
+
+function isTimingFunction(token: string): boolean {
+    return TIMING_FUNCTIONS.has(token) || /^(cubic-bezier|steps|linear)\(/i.test(token);
+}
+
+function fill(properties: string[], value: string): Longhand[] {
+    return properties.map(property => ({ property, value }));
+}
+
+// 1-4 values mapped onto top/right/bottom/left (or the four corners)
+function expandBox(properties: string[], values: string[]): Longhand[] | null {
+    if (values.length < 1 || values.length > 4) return null;
+    const [top, right = top, bottom = top, left = right] = values;
+    return [top, right, bottom, left].map((value, i) => ({ property: properties[i], value }));
+}
+
+function sideProperties(prefix: string, suffix = ''): string[] {
+    return SIDES.map(side => `${prefix}-${side}${suffix}`);
+}
+
+// width/style/color in any order, as used by border, border-<side> and outline
+function parseLine(value: string, allowAutoStyle: boolean): { width: string; style: string; color: string } | null {
+    let width: string | null = null;
+    let style: string | null = null;
+    let color: string | null = null;
+
+    for (const token of splitWords(value)) {
+        const lower = token.toLowerCase();
+        if (width === null && (BORDER_WIDTHS.has(lower) || isLength(token))) {
+            width = token;
+        } else if (style === null && (BORDER_STYLES.has(lower) || (allowAutoStyle && lower === 'auto'))) {
+            style = token;
+        } else if (color === null) {
+            color = token;
+        } else {
+            return null;
+        }
+    }
+
+    return { width: width ?? 'medium', style: style ?? 'none', color: color ?? 'currentcolor' };
+}
+
+function expandBorder(value: string, sides: string[]): Longhand[] | null {
+    const line = parseLine(value, false);
+    if (!line) return null;
+    return sides.flatMap(side => [
+        { property: `border-${side}-width`, value: line.width },
+        { property: `border-${side}-style`, value: line.style },
+        { property: `border-${side}-color`, value: line.color },
+    ]);
+}
+
+// border-radius: 1-4 horizontal radii, optionally `/` 1-4 vertical radii
+function expandBorderRadius(value: string): Longhand[] | null {
+    const [horizontal, vertical, ...rest] = splitSlash(value);
+    if (rest.length > 0 || !horizontal) return null;
+
+    const radii = (part: string) => {
+        const values = splitWords(part);
+        if (values.length < 1 || values.length > 4) return null;
+        const [tl, tr = tl, br = tl, bl = tr] = values;
+        return [tl, tr, br, bl];
+    };
+
+    const h = radii(horizontal);
+    const v = vertical ? radii(vertical) : h;
+    if (!h || !v) return null;
+
+    return CORNERS.map((corner, i) => ({
+        property: `border-${corner}-radius`,
+        value: h[i] === v[i] ? h[i] : `${h[i]} ${v[i]}`,
+    }));
+}
+
+function expandFont(value: string): Longhand[] | null {
+    const words = splitWords(value);
+    if (words.length === 1 && SYSTEM_FONTS.has(words[0].toLowerCase())) return null;
+
+    // Split "style variant weight stretch size[/line-height] family"
+    const [beforeSlash, afterSlash] = splitSlash(value);
+    let leading: string[];
+    let size: string | undefined;
+    let lineHeight = 'normal';
+    let family: string[];
+
+    if (afterSlash !== undefined) {
+        leading = splitWords(beforeSlash);
+        size = leading.pop();
+        const trailing = splitWords(afterSlash);
+        lineHeight = trailing.shift() ?? 'normal';
+        family = trailing;
+    } else {
+        const sizeIndex = words.findIndex(w => isLength(w) || FONT_SIZES.has(w.toLowerCase()));
+        if (sizeIndex === -1) return null;
+        leading = words.slice(0, sizeIndex);
+        size = words[sizeIndex];
+        family = words.slice(sizeIndex + 1);
+    }
+
+    if (!size || family.length === 0) return null;
+
+    let style = 'normal';
+    let variant = 'normal';
+    let weight = 'normal';
+    let stretch = 'normal';
+
+    for (let i = 0; i < leading.length; i++) {
+        const lower = leading[i].toLowerCase();
+        if (lower === 'normal') continue;
+        if (FONT_STYLES.has(lower)) {
+            style = leading[i];
+            // oblique may carry an angle
+            if (lower === 'oblique' && /deg|rad|turn/.test(leading[i + 1] ?? '')) {
+                style += ` ${leading[++i]}`;
+            }
+        } else if (FONT_VARIANTS.has(lower)) {
+            variant = leading[i];
+        } else if (FONT_WEIGHTS.has(lower) || isNumber(lower)) {
+            weight = leading[i];
+        } else if (FONT_STRETCHES.has(lower)) {
+            stretch = leading[i];
+        } else {
+            return null;
+        }
+    }
+
+    return [
+        { property: 'font-style', value: style },
+        { property: 'font-variant', value: variant },
+        { property: 'font-weight', value: weight },
+        { property: 'font-stretch', value: stretch },
+        { property: 'font-size', value: size },
+        { property: 'line-height', value: lineHeight },
+        { property: 'font-family', value: family.join(' ') },
+    ];
+}
+
+function expandFlex(value: string): Longhand[] | null {
+    const words = splitWords(value);
+    const result = (grow: string, shrink: string, basis: string) => [
+        { property: 'flex-grow', value: grow },
+        { property: 'flex-shrink', value: shrink },
+        { property: 'flex-basis', value: basis },
+    ];
+
+    if (words.length === 1) {
+        const lower = words[0].toLowerCase();
+        if (lower === 'none') return result('0', '0', 'auto');
+        if (lower === 'auto') return result('1', '1', 'auto');
+        if (isNumber(lower)) return result(words[0], '1', '0%');
+        return result('1', '1', words[0]);
+    }
+
+    if (words.length === 2) {
+        if (!isNumber(words[0])) return null;
+        return isNumber(words[1]) ? result(words[0], words[1], '0%') : result(words[0], '1', words[1]);
+    }
+
+    if (words.length === 3 && isNumber(words[0]) && isNumber(words[1])) {
+        return result(words[0], words[1], words[2]);
+    }
+
+    return null;
+}
+
+function expandFlexFlow(value: string): Longhand[] | null {
+    let direction = 'row';
+    let wrap = 'nowrap';
+    for (const word of splitWords(value)) {
+        const lower = word.toLowerCase();
+        if (FLEX_DIRECTIONS.has(lower)) direction = word;
+        else if (FLEX_WRAPS.has(lower)) wrap = word;
+        else return null;
+    }
+    return [
+        { property: 'flex-direction', value: direction },
+        { property: 'flex-wrap', value: wrap },
+    ];
+}
+
+// grid-row / grid-column: start [/ end]; a lone custom ident is repeated as the end line
+function expandGridLine(prop: string, value: string): Longhand[] | null {
+    const [start, end, ...rest] = splitSlash(value);
+    if (!start || rest.length > 0) return null;
+    const isIdent = /^[a-z_-][\w-]*$/i.test(start) && start !== 'auto' && !start.startsWith('span');
+    return [
+        { property: `${prop}-start`, value: start },
+        { property: `${prop}-end`, value: end ?? (isIdent ? start : 'auto') },
+    ];
+}
+
+// grid-area: row-start / column-start / row-end / column-end
+function expandGridArea(value: string): Longhand[] | null {
+    const parts = splitSlash(value);
+    if (parts.length < 1 || parts.length > 4) return null;
+
+    const isIdent = (part: string) => /^[a-z_-][\w-]*$/i.test(part) && part !== 'auto' && !part.startsWith('span');
+    const [rowStart] = parts;
+    const columnStart = parts[1] ?? (isIdent(rowStart) ? rowStart : 'auto');
+    const rowEnd = parts[2] ?? (isIdent(rowStart) ? rowStart : 'auto');
+    const columnEnd = parts[3] ?? (isIdent(columnStart) ? columnStart : 'auto');
+
+    return [
+        { property: 'grid-row-start', value: rowStart },
+        { property: 'grid-column-start', value: columnStart },
+        { property: 'grid-row-end', value: rowEnd },
+        { property: 'grid-column-end', value: columnEnd },
+    ];
+}
+
+// grid-template: none | rows / columns. The ASCII-art form with area strings is left as-is.
+function expandGridTemplate(value: string): Longhand[] | null {
+    if (/["']/.test(value)) return null;
+    if (value.trim().toLowerCase() === 'none') {
+        return fill(['grid-template-rows', 'grid-template-columns', 'grid-template-areas'], 'none');
+    }
+
+    const [rows, columns, ...rest] = splitSlash(value);
+    if (!rows || !columns || rest.length > 0) return null;
+    return [
+        { property: 'grid-template-rows', value: rows },
+        { property: 'grid-template-columns', value: columns },
+        { property: 'grid-template-areas', value: 'none' },
+    ];
+}
+
+// place-items / place-content / place-self: align [justify]
+function expandPlace(prop: string, value: string): Longhand[] | null {
+    const words = splitWords(value);
+    // Values like `first baseline` are two words but one alignment
+    if (words.length === 2 && /^(first|last)$/i.test(words[0]) && /^baseline$/i.test(words[1])) {
+        return fill([`align-${prop}`, `justify-${prop}`], value);
+    }
+    if (words.length < 1 || words.length > 2) return null;
+    return [
+        { property: `align-${prop}`, value: words[0] },
+        { property: `justify-${prop}`, value: words[1] ?? words[0] },
+    ];
+}
+
+function expandOverflow(value: string): Longhand[] | null {
+    const words = splitWords(value);
+    if (words.length < 1 || words.length > 2) return null;
+    return [
+        { property: 'overflow-x', value: words[0] },
+        { property: 'overflow-y', value: words[1] ?? words[0] },
+    ];
+}
+
+function expandOutline(value: string): Longhand[] | null {
+    const line = parseLine(value, true);
+    if (!line) return null;
+    return [
+        { property: 'outline-width', value: line.width },
+        { property: 'outline-style', value: line.style },
+        { property: 'outline-color', value: line.color },
+    ];
+}
+
+// Multi-layer transition: each comma-separated layer contributes one item to every longhand list
+function expandTransition(value: string): Longhand[] | null {
+    const properties: string[] = [];
+    const durations: string[] = [];
+    const timings: string[] = [];
+    const delays: string[] = [];
+
+    for (const layer of splitLayers(value)) {
+        let property: string | null = null;
+        let duration: string | null = null;
+        let timing: string | null = null;
+        let delay: string | null = null;
+
+        for (const word of splitWords(layer)) {
+            const lower = word.toLowerCase();
+            if (isTime(word)) {
+                if (duration === null) duration = word;
+                else if (delay === null) delay = word;
+                else return null;
+            } else if (timing === null && isTimingFunction(lower)) {
+                timing = word;
+            } else if (TRANSITION_BEHAVIORS.has(lower)) {
+                // transition-behavior has no Webflow equivalent
+            } else if (property === null) {
+                property = word;
+            } else {
+                return null;
+            }
+        }
+
+        properties.push(property ?? 'all');
+        durations.push(duration ?? '0s');
+        timings.push(timing ?? 'ease');
+        delays.push(delay ?? '0s');
+    }
+
+    return [
+        { property: 'transition-property', value: properties.join(', ') },
+        { property: 'transition-duration', value: durations.join(', ') },
+        { property: 'transition-timing-function', value: timings.join(', ') },
+        { property: 'transition-delay', value: delays.join(', ') },
+    ];
+}
+
+function expandListStyle(value: string): Longhand[] | null {
+    let type: string | null = null;
+    let position: string | null = null;
+    let image: string | null = null;
+    let noneCount = 0;
+
+    for (const word of splitWords(value)) {
+        const lower = word.toLowerCase();
+        if (lower === 'none') {
+            noneCount++;
+        } else if (position === null && LIST_STYLE_POSITIONS.has(lower)) {
+            position = word;
+        } else if (image === null && isImage(word)) {
+            image = word;
+        } else if (type === null) {
+            type = word;
+        } else {
+            return null;
+        }
+    }
+
+    // `none` fills whichever of type/image isn't otherwise set
+    if (noneCount > 0) {
+        if (type === null) { type = 'none'; noneCount--; }
+        if (noneCount > 0 && image === null) { image = 'none'; noneCount--; }
+        if (noneCount > 0) return null;
+    }
+
+    return [
+        { property: 'list-style-type', value: type ?? 'disc' },
+        { property: 'list-style-position', value: position ?? 'outside' },
+        { property: 'list-style-image', value: image ?? 'none' },
+    ];
+}
+
+function expandTextDecoration(value: string): Longhand[] | null {
+    const lines: string[] = [];
+    let style: string | null = null;
+    let thickness: string | null = null;
+    let color: string | null = null;
+
+    for (const word of splitWords(value)) {
+        const lower = word.toLowerCase();
+        if (TEXT_DECORATION_LINES.has(lower)) {
+            lines.push(word);
+        } else if (style === null && TEXT_DECORATION_STYLES.has(lower)) {
+            style = word;
+        } else if (thickness === null && (isLength(word) || lower === 'auto' || lower === 'from-font')) {
+            thickness = word;
+        } else if (color === null) {
+            color = word;
+        } else {
+            return null;
+        }
+    }
+
+    return [
+        { property: 'text-decoration-line', value: lines.length > 0 ? lines.join(' ') : 'none' },
+        { property: 'text-decoration-style', value: style ?? 'solid' },
+        { property: 'text-decoration-color', value: color ?? 'currentcolor' },
+        { property: 'text-decoration-thickness', value: thickness ?? 'auto' },
+    ];
+}
+
+interface BackgroundLayer {
+    image: string;
+    position: string;
+    size: string;
+    repeat: string;
+    attachment: string;
+    origin: string;
+    clip: string;
+}
+
+function parseBackgroundLayer(layer: string, isFinal: boolean): { layer: BackgroundLayer; color: string | null } | null {
+    const [beforeSlash, afterSlash, ...rest] = splitSlash(layer);
+    if (rest.length > 0) return null;
+
+    const words = splitWords(beforeSlash ?? '');
+    let sizeWords: string[] = [];
+    let trailing: string[] = [];
+
+    // `position / size`: size is the first one or two size-like words after the slash
+    if (afterSlash !== undefined) {
+        const after = splitWords(afterSlash);
+        const sizeCount = after.slice(0, 2).findIndex(w => !(isLength(w) || BACKGROUND_SIZES.has(w.toLowerCase())));
+        const count = sizeCount === -1 ? Math.min(2, after.length) : sizeCount;
+        if (count === 0) return null;
+        sizeWords = after.slice(0, count);
+        trailing = after.slice(count);
+    }
+
+    let image: string | null = null;
+    const position: string[] = [];
+    const repeat: string[] = [];
+    let attachment: string | null = null;
+    const boxes: string[] = [];
+    let color: string | null = null;
+
+    for (const word of [...words, ...trailing]) {
+        const lower = word.toLowerCase();
+        if (image === null && (isImage(word) || lower === 'none')) {
+            image = word;
+        } else if (BACKGROUND_POSITIONS.has(lower) || isLength(word)) {
+            position.push(word);
+        } else if (BACKGROUND_REPEATS.has(lower) && repeat.length < 2) {
+            repeat.push(word);
+        } else if (attachment === null && BACKGROUND_ATTACHMENTS.has(lower)) {
+            attachment = word;
+        } else if (BACKGROUND_BOXES.has(lower) && boxes.length < 2) {
+            boxes.push(word);
+        } else if (color === null && isFinal) {
+            color = word;
+        } else {
+            return null;
+        }
+    }
+
+    // A size is only valid directly after a position
+    if (sizeWords.length > 0 && position.length === 0) return null;
+
+    return {
+        layer: {
+            image: image ?? 'none',
+            position: position.length > 0 ? position.join(' ') : '0% 0%',
+            size: sizeWords.length > 0 ? sizeWords.join(' ') : 'auto',
+            repeat: repeat.length > 0 ? repeat.join(' ') : 'repeat',
+            attachment: attachment ?? 'scroll',
+            origin: boxes[0] ?? 'padding-box',
+            clip: boxes[1] ?? boxes[0] ?? 'border-box',
+        },
+        color,
+    };
+}
+
+// Multi-layer background: image, position / size, repeat, attachment, origin, clip per layer,
+// with the color allowed only in the final layer
+function expandBackground(value: string): Longhand[] | null {
+    const layerValues = splitLayers(value);
+    const layers: BackgroundLayer[] = [];
+    let color = 'transparent';
+
+    for (let i = 0; i < layerValues.length; i++) {
+        const parsed = parseBackgroundLayer(layerValues[i], i === layerValues.length - 1);
+        if (!parsed) return null;
+        layers.push(parsed.layer);
+        if (parsed.color) color = parsed.color;
+    }
+
+    const list = (key: keyof BackgroundLayer) => layers.map(layer => layer[key]).join(', ');
+
+    return [
+        { property: 'background-color', value: color },
+        { property: 'background-image', value: list('image') },
+        { property: 'background-position', value: list('position') },
+        { property: 'background-size', value: list('size') },
+        { property: 'background-repeat', value: list('repeat') },
+        { property: 'background-attachment', value: list('attachment') },
+        { property: 'background-origin', value: list('origin') },
+        { property: 'background-clip', value: list('clip') },
+    ];
+}
+
+// Long-hand properties set by each supported shorthand, used to expand global keywords
+const SHORTHAND_LONGHANDS: Record<string, string[]> = {
+    'margin': sideProperties('margin'),
+    'padding': sideProperties('padding'),
+    'inset': SIDES,
+    'border-radius': CORNERS.map(corner => `border-${corner}-radius`),
+    'gap': ['grid-row-gap', 'grid-column-gap'],
+    'border': ['width', 'style', 'color'].flatMap(part => sideProperties('border', `-${part}`)),
+    'border-width': sideProperties('border', '-width'),
+    'border-style': sideProperties('border', '-style'),
+    'border-color': sideProperties('border', '-color'),
+    ...Object.fromEntries(SIDES.map(side => [`border-${side}`, ['width', 'style', 'color'].map(part => `border-${side}-${part}`)])),
+    'font': ['font-style', 'font-variant', 'font-weight', 'font-stretch', 'font-size', 'line-height', 'font-family'],
+    'flex': ['flex-grow', 'flex-shrink', 'flex-basis'],
+    'flex-flow': ['flex-direction', 'flex-wrap'],
+    'grid-area': ['grid-row-start', 'grid-column-start', 'grid-row-end', 'grid-column-end'],
+    'grid-row': ['grid-row-start', 'grid-row-end'],
+    'grid-column': ['grid-column-start', 'grid-column-end'],
+    'grid-template': ['grid-template-rows', 'grid-template-columns', 'grid-template-areas'],
+    'place-items': ['align-items', 'justify-items'],
+    'place-content': ['align-content', 'justify-content'],
+    'place-self': ['align-self', 'justify-self'],
+    'overflow': ['overflow-x', 'overflow-y'],
+    'outline': ['outline-width', 'outline-style', 'outline-color'],
+    'transition': ['transition-property', 'transition-duration', 'transition-timing-function', 'transition-delay'],
+    'list-style': ['list-style-type', 'list-style-position', 'list-style-image'],
+    'text-decoration': ['text-decoration-line', 'text-decoration-style', 'text-decoration-color', 'text-decoration-thickness'],
+    'background': [
+        'background-color', 'background-image', 'background-position', 'background-size',
+        'background-repeat', 'background-attachment', 'background-origin', 'background-clip',
+    ],
+};
+
+function expand(prop: string, value: string): Longhand[] | null {
+    switch (prop) {
+        case 'margin':
+        case 'padding':
+        case 'inset':
+        case 'border-width':
+        case 'border-style':
+        case 'border-color':
+            return expandBox(SHORTHAND_LONGHANDS[prop], splitWords(value));
+
+        case 'border-radius':
+            return expandBorderRadius(value);
+
+        case 'gap': {
+            const words = splitWords(value);
+            if (words.length < 1 || words.length > 2) return null;
+            // gap is `row-gap column-gap`; Webflow names them grid-row-gap / grid-column-gap
+            return [
+                { property: 'grid-row-gap', value: words[0] },
+                { property: 'grid-column-gap', value: words[1] ?? words[0] },
+            ];
+        }
+
+        case 'border':
+            return expandBorder(value, SIDES);
+
+        case 'border-top':
+        case 'border-right':
+        case 'border-bottom':
+        case 'border-left':
+            return expandBorder(value, [prop.substring('border-'.length)]);
+
+        case 'font':
+            return expandFont(value);
+
+        case 'flex':
+            return expandFlex(value);
+
+        case 'flex-flow':
+            return expandFlexFlow(value);
+
+        case 'grid-area':
+            return expandGridArea(value);
+
+        case 'grid-row':
+        case 'grid-column':
+            return expandGridLine(prop, value);
+
+        case 'grid-template':
+            return expandGridTemplate(value);
+
+        case 'place-items':
+        case 'place-content':
+        case 'place-self':
+            return expandPlace(prop.substring('place-'.length), value);
+
+        case 'overflow':
+            return expandOverflow(value);
+
+        case 'outline':
+            return expandOutline(value);
+
+        case 'transition':
+            return expandTransition(value);
+
+        case 'list-style':
+            return expandListStyle(value);
+
+        case 'text-decoration':
+            return expandTextDecoration(value);
+
+        case 'background':
+            return expandBackground(value);
+    }
+
+    return null;
+}
+
+// Expand a CSS shorthand to long-form properties. Non-shorthands, and shorthand values that
+// can't be parsed safely, are returned unchanged as a single declaration.
+export function expandShorthand(prop: string, value: string): Longhand[] {
+    const trimmed = value.trim();
+
+    // A global keyword applies to every longhand
+    const longhands = SHORTHAND_LONGHANDS[prop];
+    if (longhands && GLOBAL_KEYWORDS.has(trimmed.toLowerCase())) {
+        return fill(longhands, trimmed);
+    }
+
+    return expand(prop, trimmed) ?? [{ property: prop, value: trimmed }];
+}
@@ -1,3 +1,5 @@
+import type { SourceLocation } from './cssParser';
+
 export interface WebflowNode {
   _id: string;
   type?: string;
@@ -24,10 +26,38 @@ export interface WebflowStyle {
   selector: null;
 }
 
+export interface WebflowAsset {
+  _id: string;
+  cdnUrl: string;
+  s3Url: string;
+  thumbUrl: string;
+  fileName: string;
+  origFileName: string;
+  mimeType: string;
+  fileSize: number; // bytes, 0 when unknown
+  width: number | null;
+  height: number | null;
+  altText: string;
+  markedAsDeleted: boolean;
+  variants: WebflowAssetVariant[]; // responsive versions, used for the image's srcset
+  createdOn: string;
+}
+
+export interface WebflowAssetVariant {
+  cdnUrl: string;
+  s3Url: string;
+  fileName: string;
+  origFileName: string;
+  format: string; // file extension
+  size: number; // bytes, 0 when unknown
+  width: number | null;
+  quality: number;
+}
+
 export interface WebflowPayload {
   nodes: WebflowNode[];
   styles: WebflowStyle[];
-  assets: any[];
+  assets: WebflowAsset[];
   ix1: any[];
   ix2: {
     interactions: any[];
@@ -49,3 +79,100 @@ export interface WebflowClipboardData {
     codeComponentsRemovedCount: number;
   };
 }
+
+// Anything that didn't translate natively, so it can be fixed in the source before pasting
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  source: 'html' | 'css' | null; // input the location refers to (null for problems in the options)
+  loc: SourceLocation | null; // null when the position is unknown
+}
+
+export type DiagnosticCode =
+  | 'css-syntax' // malformed CSS the parser recovered from
+  | 'unsupported-selector' // a selector the DOM implementation can't evaluate, in the CSS or the options
+  | 'unused-class' // class rule whose classes appear nowhere in the HTML
+  | 'unused-selector' // tag or complex rule that matched no element
+  | 'custom-css' // CSS with no native equivalent, kept in the custom CSS embed
+  | 'custom-css-dropped' // the same, left out because embedCustomCss is off
+  | 'ignored-element' // element removed (its children are kept)
+  | 'rich-text-unwrapped' // element inside RichText replaced by its children
+  | 'html-embed' // element converted to an HtmlEmbed instead of native elements
+  | 'custom-element' // element with no Webflow type, converted to a custom DOM element
+  | 'unresolved-link' // link that can't point at a Webflow page or section
+  | 'empty-document'; // no elements to convert
+
+// HTML and CSS regenerated from clipboard data (see webflowToCode)
+export interface GeneratedCode {
+  html: string;
+  css: string;
+}
+
+export interface ConversionResult {
+  data: WebflowClipboardData;
+  diagnostics: Diagnostic[];
+}
+
+// Anything with DOMParser's parseFromString, e.g. linkedom's DOMParser outside the browser
+export interface HtmlDomParser {
+  parseFromString(html: string, type: 'text/html'): Document;
+}
+
+export interface ConverterOptions {
+  // How style="" attributes are converted:
+  // 'combo' adds a combo class on top of the element's classes (a base class if it has none);
+  // 'class' flattens the element's classes and inline styles into one standalone class
+  inlineStyles: 'combo' | 'class';
+  // Name for classes generated from style="" attributes. Placeholders:
+  // {class} (the element's last class, or its tag), {tag} and {index} (1-based counter)
+  inlineStyleClassName: string;
+  // Elements matching this selector (e.g. 'article, .blog-post') become Webflow RichText blocks;
+  // their non-text children are unwrapped. Empty disables RichText conversion.
+  richTextSelector: string;
+  // Locally provided image files as data URIs, keyed by the path used in src="" or url().
+  // They are embedded in the assets so images from disk or a file picker survive the paste.
+  files: Record<string, string>;
+  // <picture> elements with art-direction sources (<source media="...">):
+  // 'embed' keeps the whole <picture> as an HtmlEmbed so every source still applies;
+  // 'image' collapses it to a native Image of the fallback <img>, dropping the media sources
+  pictureArtDirection: 'embed' | 'image';
+  // Inline <svg> elements: 'embed' emits one HtmlEmbed that carries the svg's classes and size;
+  // 'asset' turns the markup into an SVG image asset shown by a native Image
+  inlineSvg: 'embed' | 'asset';
+  // Anchors matching this selector (e.g. '.btn, .button') become Webflow Buttons instead of
+  // text links. Empty keeps them as links. <button> elements are always Buttons.
+  linkButtonSelector: string;
+  // Slugs of the site's pages ('' for the home page). Relative links to these pages become
+  // Webflow page links; other relative links stay as URLs and count towards meta.droppedLinks.
+  pages: string[];
+  // Convert <nav> elements into Webflow Navbar components (brand, menu links and menu button are
+  // detected from common markup). Navs without a detectable menu stay Blocks.
+  navbar: boolean;
+  // How <section> content relates to a container (see sectionContainerSelector):
+  // 'none' converts the children as they are;
+  // 'wrap' wraps them in a Block unless the section or one of its children is a container;
+  // 'container' converts a container child into a native Webflow Container
+  sectionWrapping: 'none' | 'wrap' | 'container';
+  // Selector identifying container elements, e.g. '.container, .wrapper'
+  sectionContainerSelector: string;
+  // Root node of the pasted tree: 'auto' uses the only top-level element as the root and wraps
+  // several in a Block; 'always' wraps the content in a Block even when there is a single element
+  rootWrapping: 'auto' | 'always';
+  // Class given to the generated root wrapper. Empty leaves the wrapper unstyled.
+  rootClassName: string;
+  // Class rules whose classes don't appear in the HTML:
+  // 'embed' keeps them in the custom CSS embed; 'create' creates them as Webflow classes so they
+  // can be applied later in the Designer; 'drop' discards them
+  unusedClasses: 'embed' | 'create' | 'drop';
+  // Emit CSS Webflow can't represent natively (variables, unmappable media queries, advanced
+  // selectors, unused rules) as an HtmlEmbed. When false that CSS is left out of the paste.
+  embedCustomCss: boolean;
+  // Prefix of classes generated for bare tag selectors, e.g. h1 -> custom-styled-h1
+  tagStylePrefix: string;
+  // Prefix of classes generated for descendant and other complex selectors,
+  // e.g. '.card p' -> scoped-style-card-p
+  scopedStylePrefix: string;
+  // Parser for the HTML. null uses the browser's DOMParser; Node.js needs a pure-JS one (see src/node.ts)
+  domParser: HtmlDomParser | null;
+}
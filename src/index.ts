@@ -1,2 +1,3 @@
-export * from './engine/converter';
+export { DEFAULT_CONVERTER_OPTIONS, WebflowConverter } from './engine/converter';
+export { webflowToCode } from './engine/reverse';
 export * from './engine/types';
@@ -0,0 +1,25 @@
+// Node.js entry point: the engine plus linkedom's pure-JS HTML parser and selector matcher, which
+// stand in for the browser's DOMParser in scripts, build pipelines and tests
+import { DOMParser } from 'linkedom';
+import { WebflowConverter } from './engine/converter';
+import type { ConverterOptions, HtmlDomParser } from './engine/types';
+
+export * from './index';
+
+const parser = new DOMParser();
+
+export const nodeDomParser: HtmlDomParser = {
+    parseFromString(html, type) {
+        // Browsers always build <html> and <body> around a fragment; linkedom only when they're written
+        let documentHtml = html;
+        if (!/<html[\s>]/i.test(html)) {
+            documentHtml = /<body[\s>]/i.test(html) ? `<html>${html}</html>` : `<html><head></head><body>${html}</body></html>`;
+        }
+        return parser.parseFromString(documentHtml, type) as unknown as Document;
+    }
+};
+
+// A converter that parses with nodeDomParser unless options.domParser says otherwise
+export function createNodeConverter(options: Partial<ConverterOptions> = {}): WebflowConverter {
+    return new WebflowConverter({ domParser: nodeDomParser, ...options });
+}
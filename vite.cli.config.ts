@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite'
+import path from 'path'
+
+// Node.js build of the command-line tool: dist-cli/cli.js
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  // The web app's static files have no place next to the CLI
+  publicDir: false,
+  build: {
+    ssr: 'src/cli.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'cli.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})